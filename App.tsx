@@ -15,12 +15,59 @@ import {
   Trash2,
   CheckCircle,
   AlertCircle,
-  Filter
+  Filter,
+  Download,
+  Pencil,
+  History,
+  Wrench,
+  RotateCcw,
+  Square,
+  Calculator,
+  Bell,
+  ChartLine,
+  Grid3x3,
+  Printer,
+  FileSearch
 } from 'lucide-react';
 import MetricCard from './components/MetricCard';
 import DetailChart from './components/DetailChart';
-import { HealthMetric, MetricCategory, MetricValue } from './types';
+import GeneticResultCard from './components/GeneticResultCard';
+import ImportReview from './components/ImportReview';
+import DataPointForm from './components/DataPointForm';
+import NewMetricModal from './components/NewMetricModal';
+import TargetForm, { TargetInput } from './components/TargetForm';
+import ComparisonView from './components/ComparisonView';
+import CorrelationView from './components/CorrelationView';
+import ReportsView from './components/ReportsView';
+import VisitSummaryModal from './components/VisitSummaryModal';
+import SourceDocumentViewer from './components/SourceDocumentViewer';
+import ImportQueueList from './components/ImportQueueList';
+import HistoryView from './components/HistoryView';
+import AiSettingsView from './components/AiSettingsView';
+import ChatThreadList from './components/ChatThreadList';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfileModal, { ProfileFields } from './components/ProfileModal';
+import { ChangeKind, ChangeLogEntry, ChatMessage, ChatThread, GeneticResult, HealthMetric, MetricCategory, MetricChange, MetricValue, NormalizedMetric, Profile, SourceDocument, WatchAlert } from './types';
 import { parseHealthData, getHolisticAdvice, normalizeHealthData } from './services/geminiService';
+import { resolveBiomarker } from './services/biomarkerCatalog';
+import { recalculateMetric } from './services/referenceRanges';
+import { metricsRepository, documentsRepository, documentFilesRepository, geneticResultsRepository, changeLogRepository, chatThreadsRepository, profilesRepository, createId } from './services/storage';
+import { computeDerivedMetrics } from './services/derivedMetrics';
+import { findWatchAlerts, parseTarget } from './services/watchlist';
+import { Report, buildReports, removeReport } from './services/reports';
+import { VISIT_SUMMARY_PROMPT } from './services/visitSummary';
+import { findDuplicateDocument, formatFileSize, hashFile } from './services/documentVault';
+import { ImportQueueItem, combineSummaries, createQueueItems, describeQueueItem, runImportQueue, skipImport } from './services/importQueue';
+import { createMessage, createThread, describeToolCall, downloadThreadMarkdown, isSnapshotCurrent, splitAtLastQuestion, takeSnapshot, toChatHistory } from './services/chatThreads';
+import { createProfile, getRangeSubject, loadProfiles, switchProfile } from './services/profiles';
+import { AI_PROVIDER_LABELS, AiSettings, describeAiError, getAiSettings, isAbortError, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { applyChanges, createLogEntry, diffMetrics, invertChanges, revertImportBatch } from './services/changeLog';
+import { MergeSummary, emptyMergeSummary, findMatchingMetric, mergeParsedMetrics } from './services/metricMerge';
+import { DataPointInput, buildDataPoint, createManualMetric, saveDataPoint, toDataPointInput } from './services/metricEditor';
+import { tryParseFhir, importFhir, exportFhirBundle } from './services/fhir';
+import { WEARABLE_FORMAT_LABELS, WearableFormat, detectWearableFormat, importWearableFile } from './services/wearableImport';
+import { GENOME_FORMAT_LABELS, GenomeFormat, detectGenomeFormat, importGenomeFile } from './services/genomeImport';
+import { BackupArchive, RestoreMode, createBackup, downloadBackup, parseBackup, restoreBackup } from './services/backup';
 import ReactMarkdown from 'react-markdown';
 
 // --- Mock Data for "Demo Mode" based on prompt ---
@@ -41,54 +88,368 @@ Lean Muscle Mass 165 lbs (Normal)
 
 const App = () => {
   // --- State ---
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'upload' | 'advisor'>('dashboard');
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<Profile | null>(null);
+  // profile is undefined while adding a new person
+  const [editingProfile, setEditingProfile] = useState<{ profile?: Profile } | null>(null);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'upload' | 'advisor' | 'history' | 'settings' | 'compare' | 'correlations' | 'reports'>('dashboard');
   const [metrics, setMetrics] = useState<HealthMetric[]>([]);
+  // The latest metric set, ahead of `metrics` until the next render. Imports that run in the
+  // background merge into this so edits made in the meantime are not overwritten.
+  const metricsRef = useRef(metrics);
+  metricsRef.current = metrics;
+  const [geneticResults, setGeneticResults] = useState<GeneticResult[]>([]);
+  const [documents, setDocuments] = useState<SourceDocument[]>([]);
   const [selectedMetric, setSelectedMetric] = useState<HealthMetric | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('All');
   const [showOutOfRangeOnly, setShowOutOfRangeOnly] = useState(false);
+
+  // Manual Entry State: index is undefined while adding a new point
+  const [editingPoint, setEditingPoint] = useState<{ index?: number } | null>(null);
+  const [isCreatingMetric, setIsCreatingMetric] = useState(false);
+  const [isWritingVisitSummary, setIsWritingVisitSummary] = useState(false);
+  // The reading whose source document is open, with the stored original if there is one
+  const [viewingSource, setViewingSource] = useState<{ point: MetricValue; document?: SourceDocument; file?: Blob } | null>(null);
   
   // Upload State
   const [textInput, setTextInput] = useState('');
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  // Several files are imported through a queue instead of the review step
+  const [importQueue, setImportQueue] = useState<ImportQueueItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Upload Success State
-  const [uploadResult, setUploadResult] = useState<{added: string[], updated: string[]} | null>(null);
+  const [uploadResult, setUploadResult] = useState<(MergeSummary & { title?: string; alerts?: WatchAlert[]; files?: ImportQueueItem[] }) | null>(null);
+
+  // Import Review State: parsed rows wait here until the user confirms them
+  const [pendingImport, setPendingImport] = useState<{
+    rows: NormalizedMetric[];
+    sourceDocument: SourceDocument;
+    file?: Blob; // the original, stored with the document once rows are imported
+    replaceSameDay: boolean;
+    skipped: MergeSummary['rejected'];
+    title?: string;
+  } | null>(null);
+
+  // Change Log State: the undo/redo stacks only cover this session, the log itself is persisted
+  const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>([]);
+  const [undoStack, setUndoStack] = useState<ChangeLogEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<ChangeLogEntry[]>([]);
+  const [watchAlerts, setWatchAlerts] = useState<WatchAlert[]>([]);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
-  // Chat State
+  // Backup State
+  const [pendingBackup, setPendingBackup] = useState<BackupArchive | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const [aiSettings, setAiSettings] = useState<AiSettings>(getAiSettings());
+
+  // Chat State: threads are newest first; a null active thread means the next message starts a new one
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [chatInput, setChatInput] = useState('');
-  const [chatHistory, setChatHistory] = useState<{role: 'user' | 'model', text: string}[]>([]);
   const [isChatting, setIsChatting] = useState(false);
+  // The answer as it streams in, before it is saved to its thread
+  const [streamingReply, setStreamingReply] = useState<{ threadId: string; text: string } | null>(null);
+  const [editingQuestion, setEditingQuestion] = useState<string | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const loadedProfileRef = useRef<string | null>(null);
+
+  const activeThread = chatThreads.find(t => t.id === activeThreadId) || null;
+  const chatHistory = activeThread?.messages || [];
+
+  const rangeSubject = useMemo(() => getRangeSubject(activeProfile), [activeProfile]);
+  // Calculated ratios and indices, shown and sent to the advisor next to the measured metrics
+  const derivedMetrics = useMemo(() => computeDerivedMetrics(metrics, rangeSubject), [metrics, rangeSubject]);
+  const displayedMetrics = useMemo(() => [...metrics, ...derivedMetrics], [metrics, derivedMetrics]);
+  const reports = useMemo(() => buildReports(metrics, documents), [metrics, documents]);
+  const compareMetrics = compareIds
+    .map(id => displayedMetrics.find(m => m.id === id))
+    .filter((m): m is HealthMetric => !!m);
+
+  // Loads everything stored for the active profile and drops the previous profile's session state
+  const loadProfileData = (profile: Profile) => {
+    const subject = getRangeSubject(profile);
+    setSelectedMetric(null);
+    setPendingImport(null);
+    setUploadResult(null);
+    setUndoStack([]);
+    setRedoStack([]);
+    setWatchAlerts([]);
+    setCompareMode(false);
+    setCompareIds([]);
+    setImportQueue([]);
+    setSelectedFiles([]);
+    setViewingSource(null);
+    loadedProfileRef.current = profile.id;
+    chatAbortRef.current?.abort();
+    setActiveThreadId(null);
+    setEditingQuestion(null);
+
+    // The storage layer migrates older localStorage data on first open
+    metricsRepository.list()
+      .then(saved => {
+        // Attach catalog IDs to metrics saved before the biomarker catalog existed,
+        // and recompute statuses so they always come from the range engine
+        setMetrics(saved.map(m => {
+          const definition = m.canonicalId ? undefined : resolveBiomarker(m.name);
+          return recalculateMetric(definition
+            ? { ...m, canonicalId: definition.id, description: m.description || definition.description }
+            : m, subject);
+        }));
+      })
+      .catch(error => console.error('Failed to load saved metrics', error));
+
+    geneticResultsRepository.list()
+      .then(setGeneticResults)
+      .catch(error => console.error('Failed to load genetic results', error));
+
+    documentsRepository.list()
+      .then(setDocuments)
+      .catch(error => console.error('Failed to load source documents', error));
+
+    changeLogRepository.list()
+      .then(setChangeLog)
+      .catch(error => console.error('Failed to load change log', error));
+
+    chatThreadsRepository.list()
+      .then(setChatThreads)
+      .catch(error => console.error('Failed to load conversations', error));
+  };
 
   // --- Effects ---
   useEffect(() => {
-    // Check for saved metrics
-    const savedMetrics = localStorage.getItem('health_metrics');
-    if (savedMetrics) {
-      setMetrics(JSON.parse(savedMetrics));
-    }
+    // Profiles come first: every other repository is scoped to the active one
+    loadProfiles()
+      .then(({ profiles, active }) => {
+        setProfiles(profiles);
+        setActiveProfile(active);
+        loadProfileData(active);
+      })
+      .catch(error => console.error('Failed to load profiles', error));
+
+    loadAiSettings()
+      .then(setAiSettings)
+      .catch(error => console.error('Failed to load AI settings', error));
   }, []);
 
-  const saveMetrics = (newMetrics: HealthMetric[]) => {
+  useEffect(() => {
+    setEditingPoint(null);
+  }, [selectedMetric?.id]);
+
+  // Updates state and writes only the metrics that changed
+  const saveMetrics = (newMetrics: HealthMetric[], changed: HealthMetric[], removedIds: string[] = []) => {
     setMetrics(newMetrics);
-    localStorage.setItem('health_metrics', JSON.stringify(newMetrics));
+    Promise.all([
+      changed.length > 0 ? metricsRepository.saveAll(changed) : Promise.resolve(),
+      ...removedIds.map(id => metricsRepository.remove(id))
+    ]).catch(error => {
+      alert("Failed to save your changes locally.");
+      console.error(error);
+    });
+  };
+
+  // A source document and its stored original go away with the last reading taken from it.
+  // Removed ones are kept for the session so undo and redo can bring them back.
+  const removedDocumentsRef = useRef(new Map<string, { document: SourceDocument; file: Promise<Blob | undefined> }>());
+
+  const syncDocuments = (newMetrics: HealthMetric[], changes: MetricChange[]) => {
+    const documentIds = (list: (HealthMetric | undefined)[]) =>
+      new Set(list.flatMap(m => m?.dataPoints.map(dp => dp.documentId) || []).filter((id): id is string => !!id));
+    const referenced = documentIds(newMetrics);
+    const removed = documents.filter(d => documentIds(changes.map(c => c.before)).has(d.id) && !referenced.has(d.id));
+    const restored = [...documentIds(changes.map(c => c.after))].filter(id => removedDocumentsRef.current.has(id));
+    if (removed.length === 0 && restored.length === 0) return;
+
+    removed.forEach(document => {
+      const file = documentFilesRepository.get(document.id);
+      removedDocumentsRef.current.set(document.id, { document, file });
+      file
+        .then(() => Promise.all([documentsRepository.remove(document.id), documentFilesRepository.remove(document.id)]))
+        .catch(error => console.error('Failed to remove source document', error));
+    });
+    const restoredDocuments = restored.map(id => {
+      const { document, file } = removedDocumentsRef.current.get(id)!;
+      removedDocumentsRef.current.delete(id);
+      file
+        .then(blob => Promise.all([documentsRepository.save(document), blob ? documentFilesRepository.save(id, blob) : undefined]))
+        .catch(error => console.error('Failed to restore source document', error));
+      return document;
+    });
+    const removedIds = new Set(removed.map(d => d.id));
+    setDocuments(prev => [...prev.filter(d => !removedIds.has(d.id)), ...restoredDocuments]);
+  };
+
+  // Applies the changes to the latest metric set rather than the one the caller rendered with
+  const persistChanges = (changes: MetricChange[]) => {
+    const newMetrics = applyChanges(metricsRef.current, changes);
+    metricsRef.current = newMetrics;
+    syncDocuments(newMetrics, changes);
+    saveMetrics(
+      newMetrics,
+      changes.filter(c => c.after).map(c => c.after!),
+      changes.filter(c => !c.after).map(c => c.metricId)
+    );
+    setSelectedMetric(prev => prev && (newMetrics.find(m => m.id === prev.id) || null));
+  };
+
+  const appendLogEntry = (entry: ChangeLogEntry) => {
+    setChangeLog(prev => [...prev, entry]);
+    changeLogRepository.append(entry).catch(error => console.error('Failed to write change log', error));
+  };
+
+  // Saves a new metric set and records the difference so it can be undone. `base` is the set
+  // newMetrics was derived from, for callers that commit several times before re-rendering.
+  const commitChange = (kind: ChangeKind, description: string, newMetrics: HealthMetric[], documentId?: string, base = metrics) => {
+    // Statuses of touched metrics are recomputed against the active profile's sex and age
+    const unchanged = new Set(base);
+    newMetrics = newMetrics.map(m => unchanged.has(m) ? m : recalculateMetric(m, rangeSubject));
+    const changes = diffMetrics(base, newMetrics);
+    if (changes.length === 0) return;
+
+    persistChanges(changes);
+    const entry = createLogEntry(kind, description, changes, documentId);
+    appendLogEntry(entry);
+    setUndoStack(prev => [...prev, entry]);
+    setRedoStack([]);
   };
 
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+
+    const changes = invertChanges(entry.changes);
+    persistChanges(changes);
+    appendLogEntry(createLogEntry('undo', `Undo: ${entry.description}`, changes, entry.documentId));
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, entry]);
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+
+    persistChanges(entry.changes);
+    appendLogEntry(createLogEntry('redo', `Redo: ${entry.description}`, entry.changes, entry.documentId));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, entry]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // --- Handlers ---
 
-  const handleDeleteMetric = (id: string) => {
-    if (window.confirm('Are you sure you want to delete this entire metric and all its history? This cannot be undone.')) {
-      const newMetrics = metrics.filter(m => m.id !== id);
-      saveMetrics(newMetrics);
+  const handleSwitchProfile = async (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || profile.id === activeProfile?.id) return;
+    try {
+      await switchProfile(profile.id);
+      setActiveProfile(profile);
+      loadProfileData(profile);
+    } catch (error) {
+      alert("Failed to switch profile.");
+      console.error(error);
+    }
+  };
+
+  const handleSaveProfile = async (fields: ProfileFields) => {
+    const existing = editingProfile?.profile;
+    const profile: Profile = existing ? { ...existing, ...fields } : createProfile(fields);
+    try {
+      await profilesRepository.save(profile);
+    } catch (error) {
+      alert("Failed to save profile.");
+      console.error(error);
+      return;
+    }
+
+    setProfiles(prev => existing ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile]);
+    setEditingProfile(null);
+    if (!existing) {
+      await switchProfile(profile.id);
+      setActiveProfile(profile);
+      loadProfileData(profile);
+    } else if (profile.id === activeProfile?.id) {
+      // A new sex or birth date can change which ranges apply
+      const subject = getRangeSubject(profile);
+      setActiveProfile(profile);
+      setMetrics(prev => prev.map(m => recalculateMetric(m, subject)));
       setSelectedMetric(null);
     }
   };
 
+  const handleDeleteProfile = async (profile: Profile) => {
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    if (remaining.length === 0) {
+      alert("At least one profile is needed.");
+      return;
+    }
+    if (!window.confirm(`Delete ${profile.name} and ALL of their data? This cannot be undone.`)) return;
+
+    try {
+      await profilesRepository.remove(profile.id);
+      setProfiles(remaining);
+      setEditingProfile(null);
+      if (profile.id === activeProfile?.id) {
+        await switchProfile(remaining[0].id);
+        setActiveProfile(remaining[0]);
+        loadProfileData(remaining[0]);
+      }
+    } catch (error) {
+      alert("Failed to delete profile.");
+      console.error(error);
+    }
+  };
+
+  const handleDeleteMetric = (id: string) => {
+    const metric = metrics.find(m => m.id === id);
+    if (metric && window.confirm('Are you sure you want to delete this entire metric and all its history? You can undo this from the History tab.')) {
+      commitChange('delete', `Deleted ${metric.name}`, metrics.filter(m => m.id !== id));
+    }
+  };
+
+  const handleRevertImport = (entry: ChangeLogEntry) => {
+    if (!entry.documentId) return;
+    if (!window.confirm('Remove every data point that came from this import?')) return;
+    commitChange('revert', `Reverted: ${entry.description}`, revertImportBatch(metrics, entry.documentId), entry.documentId);
+  };
+
+  const openSourceDocument = async (point: MetricValue) => {
+    const document = documents.find(d => d.id === point.documentId);
+    try {
+      const file = point.documentId ? await documentFilesRepository.get(point.documentId) : undefined;
+      setViewingSource({ point, document, file });
+    } catch (error) {
+      console.error('Failed to load source document', error);
+      setViewingSource({ point, document });
+    }
+  };
+
+  const handleDeleteReport = (report: Report) => {
+    if (!window.confirm(`Delete all ${report.results.length} results from ${report.name}?`)) return;
+    commitChange('delete', `Deleted report ${report.name}`, removeReport(metrics, report), report.documentId);
+  };
+
   const handleDeleteDataPoint = (metricId: string, index: number) => {
     if (!window.confirm('Are you sure you want to delete this specific data point?')) return;
 
+    const metric = metrics.find(m => m.id === metricId);
     const newMetrics = metrics.map(m => {
       if (m.id !== metricId) return m;
 
@@ -99,29 +460,10 @@ const App = () => {
 
       if (newDataPoints.length === 0) return null; // Will be filtered out
 
-      // Recalculate latest stats
-      // Assuming sorted by date ascending
-      const latest = newDataPoints[newDataPoints.length - 1];
-
-      return {
-        ...m,
-        dataPoints: newDataPoints,
-        latestValue: latest.value,
-        latestUnit: latest.unit,
-        latestDate: latest.date,
-        status: (latest.isOutOfRange ? 'High' : 'Normal') as any // Simple fallback status, or keep old
-      };
+      return recalculateMetric({ ...m, dataPoints: newDataPoints });
     }).filter((m): m is HealthMetric => m !== null);
 
-    saveMetrics(newMetrics);
-
-    // Update current view
-    const updated = newMetrics.find(m => m.id === metricId);
-    if (updated) {
-      setSelectedMetric(updated);
-    } else {
-      setSelectedMetric(null);
-    }
+    commitChange('delete', `Deleted ${metric?.name} reading from ${metric?.dataPoints[index]?.date}`, newMetrics);
   };
 
   const fileToBase64 = (file: File): Promise<string> => {
@@ -146,11 +488,16 @@ const App = () => {
     });
   };
 
+  const selectFiles = (files: FileList | null) => {
+    if (!files || files.length === 0 || isProcessing) return;
+    setSelectedFiles(Array.from(files));
+    setImportQueue([]);
+    setTextInput('');
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-      setTextInput(''); 
-    }
+    selectFiles(e.target.files);
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -161,131 +508,461 @@ const App = () => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      setSelectedFile(e.dataTransfer.files[0]);
-      setTextInput('');
+    selectFiles(e.dataTransfer.files);
+  };
+
+  const handleSaveDataPoint = (input: DataPointInput): string | undefined => {
+    if (!selectedMetric || !editingPoint) return;
+    const previous = editingPoint.index === undefined ? undefined : selectedMetric.dataPoints[editingPoint.index];
+
+    const { point, error } = buildDataPoint(input, selectedMetric, previous);
+    if (error) return error;
+
+    const updated = saveDataPoint(selectedMetric, point!, editingPoint.index);
+    commitChange(
+      'edit',
+      editingPoint.index === undefined ? `Added ${updated.name} reading for ${point!.date}` : `Edited ${updated.name} reading from ${previous!.date}`,
+      metrics.map(m => m.id === updated.id ? updated : m)
+    );
+    setEditingPoint(null);
+  };
+
+  const handleSaveTarget = (input: TargetInput): string | undefined => {
+    if (!selectedMetric) return;
+    const text = input.target.trim();
+    const target = text ? parseTarget(text, selectedMetric.target?.unit || selectedMetric.latestUnit) : undefined;
+    if (text && !target) return `Could not read "${text}". Use a form like <80, >50 or 50-80.`;
+    const changePercent = input.changePercent.trim() ? Number(input.changePercent) : undefined;
+    if (changePercent !== undefined && !(changePercent > 0)) return 'The change alert must be a positive percentage.';
+
+    const { target: _target, watch: _watch, ...rest } = selectedMetric;
+    const updated: HealthMetric = {
+      ...rest,
+      ...(target ? { target } : {}),
+      ...(input.watched ? { watch: changePercent ? { changePercent } : {} } : {})
+    };
+    commitChange('edit', `Updated target and watchlist for ${updated.name}`, metrics.map(m => m.id === updated.id ? updated : m));
+  };
+
+  const handleWriteVisitOverview = async (selected: HealthMetric[]) => {
+    const reply = await getHolisticAdvice(VISIT_SUMMARY_PROMPT, selected, [], geneticResults, activeProfile || undefined);
+    return reply.text;
+  };
+
+  const toggleCompare = (metricId: string) =>
+    setCompareIds(prev => prev.includes(metricId) ? prev.filter(id => id !== metricId) : [...prev, metricId]);
+
+  const openAlertMetric = (alert: WatchAlert) => {
+    const metric = metrics.find(m => m.id === alert.metricId);
+    if (metric) setSelectedMetric(metric);
+  };
+
+  const handleCreateMetric = (name: string, category: MetricCategory, input: DataPointInput): string | undefined => {
+    const existingIndex = findMatchingMetric(metrics, { name: name.trim(), canonicalId: resolveBiomarker(name)?.id });
+    if (existingIndex >= 0) {
+      return `${metrics[existingIndex].name} already exists. Add a reading from its detail view instead.`;
+    }
+
+    const { point, error } = buildDataPoint(input);
+    if (error) return error;
+
+    const created = createManualMetric(name, category, point!);
+    commitChange('create', `Created ${created.name}`, [...metrics, created]);
+    setIsCreatingMetric(false);
+    setSelectedMetric(created);
+  };
+
+  // Raw genome files only yield genotype calls, which are stored apart from the metric series
+  const importGenome = async (file: File, format: GenomeFormat, sourceDocument: SourceDocument) => {
+    setImportProgress(0);
+    const { results, snpsRead } = await importGenomeFile(file, setImportProgress);
+    const date = sourceDocument.importedAt.split('T')[0];
+    const calls: GeneticResult[] = results.map(r => ({ ...r, date, sourceDoc: sourceDocument.name, documentId: sourceDocument.id }));
+
+    const summary = emptyMergeSummary();
+    calls.forEach(call => {
+      (geneticResults.some(r => r.id === call.id) ? summary.updated : summary.added).push(call.name);
+    });
+
+    if (calls.length > 0) {
+      await Promise.all([geneticResultsRepository.saveAll(calls), documentsRepository.save(sourceDocument)]);
+      setDocuments(prev => [...prev, sourceDocument]);
+    }
+    setGeneticResults([...geneticResults.filter(r => !calls.some(call => call.id === r.id)), ...calls]);
+    setSelectedFiles([]);
+    setUploadResult({ ...summary, title: `${GENOME_FORMAT_LABELS[format]}: ${snpsRead.toLocaleString()} SNPs scanned` });
+  };
+
+  const newSourceDocument = (file: File | null): SourceDocument => ({
+    id: createId(),
+    name: file ? file.name : 'Manual Text Input',
+    mimeType: file?.type || 'text/plain',
+    importedAt: new Date().toISOString()
+  });
+
+  // Step 1 of an import: wearable exports and FHIR resources are mapped locally, anything else goes to the AI
+  const readImport = async (
+    file: File | null,
+    text: string,
+    wearableFormat: WearableFormat | null,
+    onProgress?: (fraction: number) => void
+  ): Promise<{ parsedMetrics: NormalizedMetric[]; skipped: MergeSummary['rejected']; title?: string; useAi: boolean }> => {
+    if (wearableFormat) {
+      const result = await importWearableFile(file!, wearableFormat, onProgress);
+      return {
+        parsedMetrics: result.metrics,
+        skipped: [],
+        title: `${WEARABLE_FORMAT_LABELS[wearableFormat]}: ${result.records.toLocaleString()} records`,
+        useAi: false
+      };
     }
+
+    let inputData: string | { mimeType: string; data: string };
+    if (file) {
+      if (file.type === 'application/pdf') {
+        const base64 = await fileToBase64(file);
+        inputData = { mimeType: 'application/pdf', data: base64 };
+      } else {
+        inputData = await fileToText(file);
+      }
+    } else {
+      inputData = text;
+    }
+
+    const fhirResource = typeof inputData === 'string' ? tryParseFhir(inputData) : null;
+    const fhirResult = fhirResource ? importFhir(fhirResource) : null;
+    return {
+      parsedMetrics: fhirResult ? fhirResult.metrics : (await parseHealthData(inputData)).metrics,
+      skipped: fhirResult ? fhirResult.skipped : [],
+      useAi: !fhirResult
+    };
+  };
+
+  const saveSourceDocument = (sourceDocument: SourceDocument, file?: Blob) => {
+    documentsRepository.save(sourceDocument).catch(error => console.error('Failed to save source document', error));
+    if (file) documentFilesRepository.save(sourceDocument.id, file).catch(error => console.error('Failed to store original document', error));
+    setDocuments(prev => [...prev, sourceDocument]);
   };
 
   const handleProcessData = async () => {
+    if (selectedFiles.length > 1) {
+      const items = createQueueItems(selectedFiles);
+      setImportQueue(items);
+      await processImportQueue(items, items);
+      return;
+    }
+
+    const selectedFile = selectedFiles[0] || null;
     if (!textInput && !selectedFile) return;
 
     setIsProcessing(true);
     try {
-      let inputData: string | { mimeType: string; data: string };
-      const sourceName = selectedFile ? selectedFile.name : 'Manual Text Input';
-
-      if (selectedFile) {
-        if (selectedFile.type === 'application/pdf') {
-          const base64 = await fileToBase64(selectedFile);
-          inputData = { mimeType: 'application/pdf', data: base64 };
-        } else {
-          const text = await fileToText(selectedFile);
-          inputData = text;
-        }
+      const sourceDocument = newSourceDocument(selectedFile);
+
+      const genomeFormat = selectedFile ? await detectGenomeFormat(selectedFile) : null;
+      if (genomeFormat) {
+        await importGenome(selectedFile!, genomeFormat, sourceDocument);
+        return;
+      }
+
+      // Step 1: Parse Raw Data. Only reports read by the AI or as FHIR are kept as originals;
+      // wearable exports can run to gigabytes.
+      const wearableFormat = selectedFile ? await detectWearableFormat(selectedFile) : null;
+      let original: Blob | undefined;
+
+      if (wearableFormat) {
+        setImportProgress(0);
       } else {
-        inputData = textInput;
+        original = selectedFile || new Blob([textInput], { type: 'text/plain' });
+        sourceDocument.hash = await hashFile(original);
+        sourceDocument.size = original.size;
+        const duplicate = findDuplicateDocument(documents, sourceDocument.hash, metrics);
+        if (duplicate && !window.confirm(`${duplicate.name} has the same contents and was imported on ${duplicate.importedAt.split('T')[0]}. Import it again?`)) return;
       }
+      const { parsedMetrics, skipped, title, useAi } = await readImport(selectedFile, textInput, wearableFormat, setImportProgress);
 
-      // Step 1: Parse Raw Data
-      const result = await parseHealthData(inputData);
-      
       // Step 2: Normalize against existing metrics
-      const normalizedNewMetrics = await normalizeHealthData(result.metrics, metrics);
+      const normalizedNewMetrics = await normalizeHealthData(parsedMetrics, metrics, { useAi, units: activeProfile?.units });
 
-      // Step 3: Merge Logic
-      const updatedMetrics = [...metrics];
-      const newAddedNames: string[] = [];
-      const newUpdatedNames: string[] = [];
-      
-      normalizedNewMetrics.forEach(parsed => {
-        const existingIndex = updatedMetrics.findIndex(m => m.name === parsed.name);
-        
-        const newDataPoint: MetricValue = {
-          date: parsed.date || new Date().toISOString().split('T')[0],
-          value: parsed.value,
-          unit: parsed.unit,
-          referenceRange: parsed.referenceRange,
-          isOutOfRange: parsed.status !== 'Normal' && parsed.status !== 'Optimal',
-          sourceDoc: sourceName
-        };
-
-        if (existingIndex >= 0) {
-          const duplicate = updatedMetrics[existingIndex].dataPoints.find(
-            dp => dp.date === newDataPoint.date && dp.value === newDataPoint.value
-          );
-
-          if (!duplicate) {
-            updatedMetrics[existingIndex].dataPoints.push(newDataPoint);
-            updatedMetrics[existingIndex].dataPoints.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-            updatedMetrics[existingIndex].latestValue = newDataPoint.value;
-            updatedMetrics[existingIndex].latestUnit = newDataPoint.unit;
-            updatedMetrics[existingIndex].latestDate = newDataPoint.date;
-            updatedMetrics[existingIndex].status = parsed.status as any;
-            
-            newUpdatedNames.push(parsed.name);
-          }
-        } else {
-          updatedMetrics.push({
-            id: Math.random().toString(36).substr(2, 9),
-            name: parsed.name,
-            category: (parsed.category as MetricCategory) || MetricCategory.Other,
-            dataPoints: [newDataPoint],
-            latestValue: parsed.value,
-            latestUnit: parsed.unit,
-            latestDate: newDataPoint.date,
-            status: parsed.status as any
-          });
-          newAddedNames.push(parsed.name);
-        }
+      // Step 3: Stage for review; nothing is merged until the rows are confirmed
+      if (normalizedNewMetrics.length === 0) {
+        setUploadResult({ ...emptyMergeSummary(), rejected: skipped, title });
+        return;
+      }
+      setPendingImport({
+        rows: normalizedNewMetrics,
+        sourceDocument,
+        file: original,
+        replaceSameDay: !!wearableFormat,
+        skipped,
+        title
       });
-
-      saveMetrics(updatedMetrics);
-      setTextInput('');
-      setSelectedFile(null);
-      
-      setUploadResult({ added: newAddedNames, updated: newUpdatedNames });
       
     } catch (error) {
       alert("Error parsing or normalizing data. Please ensure the file format is valid.");
       console.error(error);
     } finally {
       setIsProcessing(false);
+      setImportProgress(null);
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!chatInput.trim()) return;
+  // Runs `items` (all of `queue`, or just its failed files) and merges each file without review.
+  // Every file is its own import in the change log, so any one of them can be undone.
+  const processImportQueue = async (queue: ImportQueueItem[], items: ImportQueueItem[]) => {
+    setIsProcessing(true);
+    const profileId = loadedProfileRef.current;
+    const knownDocuments = [...documents];
+    const batchHashes = new Map<string, File>();
+    const alerts: WatchAlert[] = [];
 
-    const userMsg = chatInput;
-    setChatInput('');
-    setChatHistory(prev => [...prev, { role: 'user', text: userMsg }]);
+    const results = await runImportQueue(items, {
+      parse: async file => {
+        if (await detectGenomeFormat(file)) throw skipImport('Raw DNA files are imported one at a time');
+        const sourceDocument = newSourceDocument(file);
+        const wearableFormat = await detectWearableFormat(file);
+        if (!wearableFormat) {
+          sourceDocument.hash = await hashFile(file);
+          sourceDocument.size = file.size;
+          const duplicate = findDuplicateDocument(knownDocuments, sourceDocument.hash, metricsRef.current);
+          if (duplicate) throw skipImport(`Same contents as ${duplicate.name}, imported ${duplicate.importedAt.split('T')[0]}`);
+          const twin = batchHashes.get(sourceDocument.hash);
+          if (twin && twin !== file) throw skipImport(`Same contents as ${twin.name}`);
+          batchHashes.set(sourceDocument.hash, file);
+        }
+        return { ...(await readImport(file, '', wearableFormat)), sourceDocument, wearableFormat };
+      },
+      merge: async (file, { parsedMetrics, skipped, useAi, sourceDocument, wearableFormat }) => {
+        const rows = await normalizeHealthData(parsedMetrics, metricsRef.current, { useAi, units: activeProfile?.units });
+        // Files still in the queue must not land in another person's data
+        if (loadedProfileRef.current !== profileId) throw skipImport('The profile was switched before this file was merged.');
+        // Picked up after normalizing, which can take a while, so edits made meanwhile are kept
+        const current = metricsRef.current;
+        const { metrics: updatedMetrics, changed, summary } = mergeParsedMetrics(
+          current,
+          rows,
+          { name: sourceDocument.name, documentId: sourceDocument.id },
+          { replaceSameDay: !!wearableFormat }
+        );
+        summary.rejected.unshift(...skipped);
+        alerts.push(...findWatchAlerts(current, updatedMetrics));
+
+        commitChange('import', `Imported ${sourceDocument.name}`, updatedMetrics, sourceDocument.id, current);
+        if (changed.length > 0) {
+          saveSourceDocument(sourceDocument, wearableFormat ? undefined : file);
+          knownDocuments.push(sourceDocument);
+        }
+        return summary;
+      },
+      onUpdate: item => setImportQueue(prev => prev.map(i => i.id === item.id ? item : i))
+    });
+
+    if (loadedProfileRef.current !== profileId) {
+      setIsProcessing(false);
+      return;
+    }
+    const files = queue.map(item => results.find(r => r.id === item.id) || item);
+    const imported = files.filter(f => f.status === 'merged').length;
+    if (alerts.length > 0) setWatchAlerts(prev => [...alerts, ...prev]);
+    setSelectedFiles([]);
+    setIsProcessing(false);
+    setUploadResult({ ...combineSummaries(files), title: `${imported} of ${files.length} Files Imported`, alerts, files });
+  };
+
+  const handleRetryFailed = () =>
+    processImportQueue(importQueue, importQueue.filter(item => item.status === 'failed'));
+
+  const handleConfirmImport = (rows: NormalizedMetric[]) => {
+    if (!pendingImport) return;
+    const { sourceDocument, file, replaceSameDay, skipped, title } = pendingImport;
+
+    const { metrics: updatedMetrics, changed, summary } = mergeParsedMetrics(
+      metrics,
+      rows,
+      { name: sourceDocument.name, documentId: sourceDocument.id },
+      { replaceSameDay }
+    );
+    summary.rejected.unshift(...skipped);
+    const alerts = findWatchAlerts(metrics, updatedMetrics);
+
+    commitChange('import', `Imported ${sourceDocument.name}`, updatedMetrics, sourceDocument.id);
+    if (alerts.length > 0) setWatchAlerts(prev => [...alerts, ...prev]);
+    if (changed.length > 0) saveSourceDocument(sourceDocument, file);
+    setTextInput('');
+    setSelectedFiles([]);
+    setPendingImport(null);
+    setUploadResult({ ...summary, title, alerts });
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      downloadBackup(await createBackup(activeProfile || undefined));
+    } catch (error) {
+      alert("Failed to create backup.");
+      console.error(error);
+    }
+  };
+
+  const handleExportFhir = () => {
+    const bundle = exportFhirBundle(metrics);
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `health-data-fhir-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingBackup(parseBackup(await fileToText(file)));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not read backup file.");
+      console.error(error);
+    }
+  };
+
+  const handleRestoreBackup = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    if (mode === 'replace' && !window.confirm('Replace ALL current data with this backup? This cannot be undone.')) return;
+
+    setIsRestoring(true);
+    try {
+      const { metrics: restored, geneticResults: restoredGenetics, summary } = await restoreBackup(pendingBackup, mode, metrics);
+      setMetrics(restored.map(m => recalculateMetric(m, rangeSubject)));
+      // Earlier entries' snapshots predate the restore, so replaying them would undo part of it
+      setUndoStack([]);
+      setRedoStack([]);
+      setGeneticResults(restoredGenetics);
+      setDocuments(await documentsRepository.list());
+      setPendingBackup(null);
+      setUploadResult({ ...summary, title: mode === 'replace' ? 'Backup Restored' : 'Backup Merged' });
+    } catch (error) {
+      alert("Failed to restore backup.");
+      console.error(error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Keeps the thread list sorted by activity and writes the thread through to storage
+  const saveThread = (thread: ChatThread) => {
+    setChatThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    chatThreadsRepository.save(thread).catch(error => console.error('Failed to save conversation', error));
+  };
+
+  // Appends the question to the thread and streams the answer into it
+  const askAdvisor = async (base: ChatThread, question: string) => {
+    let thread: ChatThread = { ...base, messages: [...base.messages, createMessage('user', question)], updatedAt: Date.now() };
+    const profileId = loadedProfileRef.current;
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    saveThread(thread);
+    setActiveThreadId(thread.id);
+    setEditingQuestion(null);
     setIsChatting(true);
+    setStreamingReply({ threadId: thread.id, text: '' });
 
+    let partial = '';
+    let answer: ChatMessage;
     try {
-      const response = await getHolisticAdvice(userMsg, metrics, chatHistory);
-      setChatHistory(prev => [...prev, { role: 'model', text: response || "I couldn't generate a response." }]);
+      const reply = await getHolisticAdvice(question, displayedMetrics, toChatHistory(base.messages), geneticResults, activeProfile || undefined, {
+        signal: controller.signal,
+        onText: text => {
+          partial = text;
+          setStreamingReply({ threadId: thread.id, text });
+        }
+      });
+      answer = createMessage('model', reply.text || "I couldn't generate a response.", reply.toolCalls);
+      thread = { ...thread, snapshot: takeSnapshot(displayedMetrics, geneticResults) };
     } catch (err) {
-      console.error(err);
-      setChatHistory(prev => [...prev, { role: 'model', text: "Error connecting to AI. Please check your connection." }]);
-    } finally {
-      setIsChatting(false);
+      if (isAbortError(err) || controller.signal.aborted) {
+        answer = { ...createMessage('model', partial), stopped: true };
+      } else {
+        console.error(err);
+        answer = { ...createMessage('model', partial), error: describeAiError(err) };
+      }
+    }
+
+    if (chatAbortRef.current === controller) chatAbortRef.current = null;
+    setIsChatting(false);
+    setStreamingReply(null);
+    // The profile was switched mid-answer; the thread belongs to the previous profile
+    if (loadedProfileRef.current !== profileId) return;
+    saveThread({ ...thread, messages: [...thread.messages, answer], updatedAt: Date.now() });
+  };
+
+  const handleSendMessage = () => {
+    if (!chatInput.trim() || isChatting) return;
+    setChatInput('');
+    askAdvisor(activeThread || createThread(chatInput), chatInput);
+  };
+
+  const handleStopAnswer = () => chatAbortRef.current?.abort();
+
+  // Asks the last question again, optionally reworded; the old answer is dropped
+  const handleResendQuestion = (text?: string) => {
+    const split = activeThread && splitAtLastQuestion(activeThread);
+    if (!split || isChatting) return;
+    const question = text?.trim() || split.question.text;
+    askAdvisor(split.base, question);
+  };
+
+  const handleRenameThread = (thread: ChatThread, title: string) =>
+    saveThread({ ...thread, title, updatedAt: Date.now() });
+
+  const handleDeleteThread = (thread: ChatThread) => {
+    if (streamingReply?.threadId === thread.id) {
+      alert("Stop the answer that is being written before deleting this conversation.");
+      return;
+    }
+    if (!window.confirm(`Delete "${thread.title}"?`)) return;
+    setChatThreads(prev => prev.filter(t => t.id !== thread.id));
+    if (thread.id === activeThreadId) setActiveThreadId(null);
+    chatThreadsRepository.remove(thread.id).catch(error => console.error('Failed to delete conversation', error));
+  };
+
+  const handleSaveAiSettings = async (settings: AiSettings) => {
+    try {
+      await saveAiSettings(settings);
+      setAiSettings(settings);
+      return true;
+    } catch (error) {
+      alert("Failed to save AI settings.");
+      console.error(error);
+      return false;
     }
   };
 
   const handleLoadDemo = () => {
     setTextInput(DEMO_OCR_TEXT);
-    setSelectedFile(null);
+    setSelectedFiles([]);
+    setImportQueue([]);
   };
 
   const filteredMetrics = useMemo(() => {
-    return metrics.filter(m => {
+    return displayedMetrics.filter(m => {
       const matchesSearch = m.name.toLowerCase().includes(searchQuery.toLowerCase());
       const matchesCategory = categoryFilter === 'All' || m.category === categoryFilter;
       const matchesRange = !showOutOfRangeOnly || (m.status === 'High' || m.status === 'Low');
       return matchesSearch && matchesCategory && matchesRange;
     });
-  }, [metrics, searchQuery, categoryFilter, showOutOfRangeOnly]);
+  }, [displayedMetrics, searchQuery, categoryFilter, showOutOfRangeOnly]);
+
+  const filteredGenetics = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return geneticResults.filter(r => {
+      const matchesSearch = [r.name, r.gene, ...r.rsids].some(text => text.toLowerCase().includes(query));
+      const matchesCategory = categoryFilter === 'All' || categoryFilter === MetricCategory.Genetics;
+      const matchesRange = !showOutOfRangeOnly || r.flagged;
+      return matchesSearch && matchesCategory && matchesRange;
+    });
+  }, [geneticResults, searchQuery, categoryFilter, showOutOfRangeOnly]);
 
   const groupedMetrics = useMemo(() => {
     if (categoryFilter !== 'All') return null;
@@ -298,7 +975,10 @@ const App = () => {
     return groups;
   }, [filteredMetrics, categoryFilter]);
 
-  const categories = ['All', ...Array.from(new Set(metrics.map(m => m.category)))];
+  const categories = ['All', ...Array.from(new Set([
+    ...displayedMetrics.map(m => m.category as string),
+    ...(geneticResults.length > 0 ? [MetricCategory.Genetics] : [])
+  ]))];
   // Preferred sort order for categories when grouping
   const categorySortOrder = [
     MetricCategory.Blood,
@@ -330,6 +1010,20 @@ const App = () => {
                 <Activity className="h-5 w-5" />
                 <span className="hidden lg:block ml-3 font-medium">Dashboard</span>
             </button>
+            <button 
+                onClick={() => setActiveTab('reports')}
+                className={`w-full flex items-center justify-center lg:justify-start px-3 py-3 rounded-lg transition-colors ${activeTab === 'reports' ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <FileText className="h-5 w-5" />
+                <span className="hidden lg:block ml-3 font-medium">Reports</span>
+            </button>
+            <button 
+                onClick={() => setActiveTab('correlations')}
+                className={`w-full flex items-center justify-center lg:justify-start px-3 py-3 rounded-lg transition-colors ${activeTab === 'correlations' ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <Grid3x3 className="h-5 w-5" />
+                <span className="hidden lg:block ml-3 font-medium">Correlations</span>
+            </button>
             <button 
                 onClick={() => setActiveTab('advisor')}
                 className={`w-full flex items-center justify-center lg:justify-start px-3 py-3 rounded-lg transition-colors ${activeTab === 'advisor' ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'}`}
@@ -344,8 +1038,30 @@ const App = () => {
                 <Upload className="h-5 w-5" />
                 <span className="hidden lg:block ml-3 font-medium">Import Data</span>
             </button>
+            <button 
+                onClick={() => setActiveTab('history')}
+                className={`w-full flex items-center justify-center lg:justify-start px-3 py-3 rounded-lg transition-colors ${activeTab === 'history' ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <History className="h-5 w-5" />
+                <span className="hidden lg:block ml-3 font-medium">History</span>
+            </button>
+            <button 
+                onClick={() => setActiveTab('settings')}
+                className={`w-full flex items-center justify-center lg:justify-start px-3 py-3 rounded-lg transition-colors ${activeTab === 'settings' ? 'bg-teal-50 text-teal-700' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+                <Settings className="h-5 w-5" />
+                <span className="hidden lg:block ml-3 font-medium">Settings</span>
+            </button>
             </nav>
         </div>
+
+        <ProfileSwitcher
+            profiles={profiles}
+            activeId={activeProfile?.id}
+            onSwitch={handleSwitchProfile}
+            onEdit={profile => setEditingProfile({ profile })}
+            onAdd={() => setEditingProfile({})}
+        />
       </aside>
 
       {/* Main */}
@@ -360,7 +1076,9 @@ const App = () => {
             <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
               <div>
                 <h1 className="text-2xl font-bold text-slate-900">Health Dashboard</h1>
-                <p className="text-slate-500 mt-1">Your comprehensive biological overview.</p>
+                <p className="text-slate-500 mt-1">
+                  {profiles.length > 1 && activeProfile ? `${activeProfile.name}'s biological overview.` : 'Your comprehensive biological overview.'}
+                </p>
               </div>
               <div className="flex flex-col sm:flex-row gap-3">
                 <div className="relative">
@@ -373,6 +1091,30 @@ const App = () => {
                     className="pl-9 pr-4 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 w-full sm:w-64"
                   />
                 </div>
+                <button 
+                    onClick={() => setIsWritingVisitSummary(true)}
+                    disabled={displayedMetrics.length === 0}
+                    className="bg-white border border-gray-200 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                >
+                    <Printer className="h-4 w-4" />
+                    <span className="hidden sm:inline">Visit Summary</span>
+                </button>
+                <button 
+                    onClick={() => setCompareMode(prev => !prev)}
+                    className={`border px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+                      compareMode ? 'bg-teal-50 border-teal-200 text-teal-700' : 'bg-white border-gray-200 hover:bg-gray-50 text-gray-700'
+                    }`}
+                >
+                    <ChartLine className="h-4 w-4" />
+                    <span className="hidden sm:inline">Compare</span>
+                </button>
+                <button 
+                    onClick={() => setIsCreatingMetric(true)}
+                    className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                >
+                    <Pencil className="h-4 w-4" />
+                    <span className="hidden sm:inline">New Metric</span>
+                </button>
                 <button 
                     onClick={() => setActiveTab('upload')}
                     className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
@@ -412,15 +1154,48 @@ const App = () => {
                 </label>
             </div>
 
-            {filteredMetrics.length > 0 ? (
+            {watchAlerts.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-amber-900 flex items-center gap-2">
+                    <Bell className="h-4 w-4" /> Watchlist Alerts
+                  </h3>
+                  <button onClick={() => setWatchAlerts([])} className="text-xs text-amber-700 hover:underline">
+                    Dismiss all
+                  </button>
+                </div>
+                <ul className="space-y-1">
+                  {watchAlerts.map(alert => (
+                    <li key={alert.id} className="flex items-center justify-between gap-3 text-sm">
+                      <button
+                        onClick={() => openAlertMetric(alert)}
+                        className={`text-left hover:underline ${alert.kind === 'reached-target' ? 'text-emerald-700' : 'text-amber-800'}`}
+                      >
+                        {alert.message}
+                      </button>
+                      <button
+                        onClick={() => setWatchAlerts(prev => prev.filter(a => a.id !== alert.id))}
+                        className="text-amber-400 hover:text-amber-700"
+                        title="Dismiss"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {filteredMetrics.length > 0 || filteredGenetics.length > 0 ? (
                 <>
                   {groupedMetrics ? (
                     // Grouped View
                     <div className="space-y-10">
                       {categorySortOrder.concat(Object.keys(groupedMetrics).filter(k => !categorySortOrder.includes(k as MetricCategory)) as MetricCategory[])
                         .map(cat => {
-                        const catMetrics = groupedMetrics[cat as string];
-                        if (!catMetrics || catMetrics.length === 0) return null;
+                        const catMetrics = groupedMetrics[cat as string] || [];
+                        const catGenetics = cat === MetricCategory.Genetics ? filteredGenetics : [];
+                        if (catMetrics.length === 0 && catGenetics.length === 0) return null;
                         
                         return (
                           <div key={cat}>
@@ -433,9 +1208,14 @@ const App = () => {
                                     <MetricCard 
                                         key={metric.id} 
                                         metric={metric} 
-                                        onClick={() => setSelectedMetric(metric)} 
+                                        subject={rangeSubject}
+                                        selected={compareMode ? compareIds.includes(metric.id) : undefined}
+                                        onClick={() => compareMode ? toggleCompare(metric.id) : setSelectedMetric(metric)} 
                                     />
                                 ))}
+                                {catGenetics.map(result => (
+                                    <GeneticResultCard key={result.id} result={result} />
+                                ))}
                             </div>
                           </div>
                         );
@@ -448,9 +1228,14 @@ const App = () => {
                         <MetricCard 
                             key={metric.id} 
                             metric={metric} 
-                            onClick={() => setSelectedMetric(metric)} 
+                            subject={rangeSubject}
+                            selected={compareMode ? compareIds.includes(metric.id) : undefined}
+                            onClick={() => compareMode ? toggleCompare(metric.id) : setSelectedMetric(metric)} 
                         />
                     ))}
+                    {filteredGenetics.map(result => (
+                        <GeneticResultCard key={result.id} result={result} />
+                    ))}
                     </div>
                   )}
                 </>
@@ -476,9 +1261,68 @@ const App = () => {
                     )}
                 </div>
             )}
+
+            {compareMode && (
+              <div className="sticky bottom-4 mt-6 flex justify-center">
+                <div className="bg-slate-900 text-white rounded-xl shadow-lg px-4 py-3 flex items-center gap-4 text-sm">
+                  <span>{compareIds.length === 0 ? 'Select metrics to compare' : `${compareIds.length} selected`}</span>
+                  <button
+                    onClick={() => setActiveTab('compare')}
+                    disabled={compareIds.length < 2}
+                    className="bg-teal-500 hover:bg-teal-400 disabled:bg-slate-700 disabled:text-slate-400 px-3 py-1.5 rounded-lg font-medium"
+                  >
+                    Compare
+                  </button>
+                  <button
+                    onClick={() => { setCompareMode(false); setCompareIds([]); }}
+                    className="text-slate-300 hover:text-white"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
           </>
         )}
 
+        {activeTab === 'compare' && (
+          <ComparisonView
+            metrics={compareMetrics}
+            available={displayedMetrics}
+            subject={rangeSubject}
+            onChange={setCompareIds}
+            onBack={() => setActiveTab('dashboard')}
+          />
+        )}
+
+        {activeTab === 'reports' && (
+          <ReportsView
+            reports={reports}
+            onOpenMetric={id => setSelectedMetric(metrics.find(m => m.id === id) || null)}
+            onDelete={handleDeleteReport}
+          />
+        )}
+
+        {activeTab === 'correlations' && (
+          <CorrelationView metrics={displayedMetrics} />
+        )}
+
+        {activeTab === 'history' && (
+          <HistoryView
+            entries={changeLog}
+            canUndo={undoStack.length > 0}
+            canRedo={redoStack.length > 0}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onRevert={handleRevertImport}
+            isRevertable={entry => metrics.some(m => m.dataPoints.some(dp => dp.documentId === entry.documentId))}
+          />
+        )}
+
+        {activeTab === 'settings' && (
+          <AiSettingsView settings={aiSettings} onSave={handleSaveAiSettings} />
+        )}
+
         {activeTab === 'upload' && (
           <div className="max-w-3xl mx-auto">
             <h1 className="text-2xl font-bold text-slate-900 mb-6">Import Health Data</h1>
@@ -487,7 +1331,7 @@ const App = () => {
                 
                 <div 
                     className={`border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center text-center transition-colors cursor-pointer mb-6 ${
-                        selectedFile ? 'border-teal-500 bg-teal-50' : 'border-gray-300 hover:border-teal-400 hover:bg-gray-50'
+                        selectedFiles.length > 0 ? 'border-teal-500 bg-teal-50' : 'border-gray-300 hover:border-teal-400 hover:bg-gray-50'
                     }`}
                     onDragOver={handleDragOver}
                     onDrop={handleDrop}
@@ -497,21 +1341,36 @@ const App = () => {
                         type="file" 
                         ref={fileInputRef} 
                         className="hidden" 
-                        accept=".pdf,.json,.csv,.txt" 
+                        accept=".pdf,.json,.csv,.txt,.xml" 
+                        multiple
                         onChange={handleFileChange}
                     />
                     
-                    {selectedFile ? (
-                        <div className="flex flex-col items-center animate-in fade-in zoom-in duration-200">
+                    {selectedFiles.length > 0 ? (
+                        <div className="flex flex-col items-center animate-in fade-in zoom-in duration-200 w-full">
                             <div className="h-14 w-14 bg-teal-100 text-teal-600 rounded-full flex items-center justify-center mb-3">
                                 <FileText className="h-7 w-7" />
                             </div>
-                            <p className="font-semibold text-gray-900 text-lg">{selectedFile.name}</p>
-                            <p className="text-sm text-gray-500 mt-1">{(selectedFile.size / 1024).toFixed(0)} KB</p>
+                            <p className="font-semibold text-gray-900 text-lg">
+                                {selectedFiles.length === 1 ? selectedFiles[0].name : `${selectedFiles.length} files`}
+                            </p>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {formatFileSize(selectedFiles.reduce((total, file) => total + file.size, 0))}
+                            </p>
+                            {selectedFiles.length > 1 && (
+                                <ul className="mt-3 max-h-32 overflow-y-auto text-xs text-gray-600 w-full max-w-sm text-left space-y-0.5">
+                                    {selectedFiles.map((file, i) => (
+                                        <li key={i} className="flex justify-between gap-4">
+                                            <span className="truncate">{file.name}</span>
+                                            <span className="text-gray-400 shrink-0">{formatFileSize(file.size)}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
                             <button 
                                 onClick={(e) => {
                                     e.stopPropagation();
-                                    setSelectedFile(null);
+                                    setSelectedFiles([]);
                                 }}
                                 className="mt-4 text-red-500 hover:text-red-700 text-sm font-medium flex items-center gap-1"
                             >
@@ -525,7 +1384,8 @@ const App = () => {
                             </div>
                             <h3 className="text-lg font-semibold text-gray-700">Click or Drag to Upload</h3>
                             <p className="text-sm text-gray-500 mt-1 max-w-sm">
-                                Support for PDF, JSON, CSV, or TXT files. <br/>
+                                Support for PDF, JSON (including FHIR R4), CSV, or TXT files, plus Apple Health export.xml, Google Fit Takeout and 23andMe/AncestryDNA raw data.
+                                Select several files to import them all at once. <br/>
                                 <span className="text-xs opacity-75">Files are processed locally or securely via AI API.</span>
                             </p>
                         </>
@@ -542,7 +1402,7 @@ const App = () => {
                     value={textInput}
                     onChange={(e) => {
                         setTextInput(e.target.value);
-                        if (e.target.value) setSelectedFile(null);
+                        if (e.target.value) setSelectedFiles([]);
                     }}
                     placeholder="Paste raw content here..."
                     className="w-full h-32 p-4 bg-slate-50 border border-gray-200 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent font-mono text-sm mb-4"
@@ -557,36 +1417,107 @@ const App = () => {
                     </button>
                     <button
                         onClick={handleProcessData}
-                        disabled={isProcessing || (!textInput && !selectedFile)}
+                        disabled={isProcessing || (!textInput && selectedFiles.length === 0)}
                         className={`px-6 py-2 rounded-lg text-white font-medium transition-all flex items-center gap-2 ${
-                            isProcessing || (!textInput && !selectedFile) ? 'bg-gray-300 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700 shadow-md hover:shadow-lg'
+                            isProcessing || (!textInput && selectedFiles.length === 0) ? 'bg-gray-300 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700 shadow-md hover:shadow-lg'
                         }`}
                     >
                         {isProcessing ? (
                             <>
                                 <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full"></div>
-                                {selectedFile ? 'Processing...' : 'Analyzing...'}
+                                {importProgress !== null
+                                  ? `Reading... ${Math.round(importProgress * 100)}%`
+                                  : selectedFiles.length > 0 || importQueue.length > 0 ? 'Processing...' : 'Analyzing...'}
                             </>
+                        ) : selectedFiles.length > 1 ? (
+                            `Import ${selectedFiles.length} Files`
                         ) : (
                             'Process Data'
                         )}
                     </button>
                 </div>
+
+                {importQueue.length > 0 && (
+                    <ImportQueueList items={importQueue} isRunning={isProcessing} onRetryFailed={handleRetryFailed} />
+                )}
+            </div>
+
+            <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mt-6">
+                <h2 className="font-semibold text-gray-900">Backup & Export</h2>
+                <p className="text-sm text-gray-500 mt-1 mb-4">
+                    Export all metrics, history, source documents and settings to a JSON file, or restore one from another browser.
+                    The FHIR bundle can be shared with clinic systems.
+                </p>
+                <input 
+                    type="file" 
+                    ref={backupInputRef} 
+                    className="hidden" 
+                    accept=".json,application/json" 
+                    onChange={handleBackupFileChange}
+                />
+                <div className="flex flex-col sm:flex-row gap-3">
+                    <button
+                        onClick={handleExportBackup}
+                        className="flex-1 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <Download className="h-4 w-4" /> Export Backup
+                    </button>
+                    <button
+                        onClick={handleExportFhir}
+                        disabled={metrics.length === 0}
+                        className="flex-1 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <FileText className="h-4 w-4" /> Export FHIR Bundle
+                    </button>
+                    <button
+                        onClick={() => backupInputRef.current?.click()}
+                        className="flex-1 px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <Upload className="h-4 w-4" /> Restore Backup
+                    </button>
+                </div>
             </div>
           </div>
         )}
 
         {activeTab === 'advisor' && (
-          <div className="h-[calc(100vh-6rem)] flex flex-col max-w-4xl mx-auto">
-            <div className="flex-1 bg-white rounded-t-xl border border-gray-200 shadow-sm overflow-hidden flex flex-col">
+          <div className="h-[calc(100vh-6rem)] flex gap-4 max-w-6xl mx-auto">
+            <div className="hidden md:flex">
+              <ChatThreadList
+                threads={chatThreads}
+                activeId={activeThreadId}
+                onSelect={id => { setActiveThreadId(id); setEditingQuestion(null); }}
+                onNew={() => { setActiveThreadId(null); setEditingQuestion(null); }}
+                onRename={handleRenameThread}
+                onDelete={handleDeleteThread}
+                onExport={downloadThreadMarkdown}
+              />
+            </div>
+            <div className="flex-1 min-w-0 bg-white rounded-t-xl border border-gray-200 shadow-sm overflow-hidden flex flex-col">
                 <div className="p-4 border-b border-gray-100 bg-white flex items-center gap-3">
                     <Sparkles className="h-5 w-5 text-teal-600" />
-                    <div>
-                        <h2 className="font-semibold text-gray-900">Holistic Health Advisor</h2>
-                        <p className="text-xs text-gray-500">Powered by Gemini 3 Pro • Context-Aware</p>
+                    <div className="flex-1 min-w-0">
+                        <h2 className="font-semibold text-gray-900 truncate">{activeThread?.title || 'Holistic Health Advisor'}</h2>
+                        <p className="text-xs text-gray-500">Powered by {aiSettings.models.chat || AI_PROVIDER_LABELS[aiSettings.provider]} • Context-Aware</p>
                     </div>
+                    {activeThread && (
+                        <button
+                            onClick={() => downloadThreadMarkdown(activeThread)}
+                            title="Export as Markdown"
+                            className="p-2 text-gray-400 hover:text-teal-600 hover:bg-gray-50 rounded-lg"
+                        >
+                            <Download className="h-4 w-4" />
+                        </button>
+                    )}
                 </div>
 
+                {activeThread?.snapshot && !isSnapshotCurrent(activeThread.snapshot, displayedMetrics) && (
+                    <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                        Your data has changed since {new Date(activeThread.snapshot.takenAt).toLocaleString()}, when the last answer was given.
+                    </div>
+                )}
+
                 <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50">
                     {chatHistory.length === 0 && (
                         <div className="text-center mt-10 opacity-60">
@@ -596,34 +1527,109 @@ const App = () => {
                             <p className="text-gray-600">Ask me about your blood work, correlations, or how to improve your biomarkers.</p>
                         </div>
                     )}
-                    {chatHistory.map((msg, idx) => (
-                        <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    {chatHistory.map((msg, idx) => {
+                        const isLast = idx === chatHistory.length - 1;
+                        const isLastQuestion = msg.role === 'user' && !chatHistory.slice(idx + 1).some(m => m.role === 'user');
+
+                        if (isLastQuestion && editingQuestion !== null) {
+                            return (
+                                <form
+                                    key={msg.id}
+                                    onSubmit={e => { e.preventDefault(); handleResendQuestion(editingQuestion); }}
+                                    className="flex flex-col items-end gap-2"
+                                >
+                                    <textarea
+                                        autoFocus
+                                        value={editingQuestion}
+                                        onChange={e => setEditingQuestion(e.target.value)}
+                                        rows={3}
+                                        className="w-full lg:w-[85%] p-3 border border-gray-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent outline-none"
+                                    />
+                                    <div className="flex gap-2">
+                                        <button type="button" onClick={() => setEditingQuestion(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg">
+                                            Cancel
+                                        </button>
+                                        <button type="submit" disabled={!editingQuestion.trim()} className="px-3 py-1.5 text-sm text-white bg-teal-600 hover:bg-teal-700 rounded-lg disabled:opacity-50">
+                                            Send
+                                        </button>
+                                    </div>
+                                </form>
+                            );
+                        }
+
+                        return (
+                        <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                             <div className={`max-w-[90%] lg:max-w-[85%] p-4 rounded-2xl text-sm leading-relaxed ${
                                 msg.role === 'user' 
                                 ? 'bg-teal-600 text-white rounded-br-none' 
+                                : msg.error
+                                ? 'bg-red-50 border border-red-100 text-red-700 rounded-bl-none'
                                 : 'bg-white border border-gray-200 text-gray-800 rounded-bl-none shadow-sm'
                             }`}>
                                 {msg.role === 'user' ? (
                                     msg.text
-                                ) : (
+                                ) : msg.text && (
                                     <div className="prose prose-sm max-w-none prose-teal prose-p:my-2 prose-headings:my-3 prose-ul:my-2">
                                         <ReactMarkdown>
                                             {msg.text}
                                         </ReactMarkdown>
                                     </div>
                                 )}
+                                {msg.error && (
+                                    <div className={`flex items-start gap-2 ${msg.text ? 'mt-3 pt-3 border-t border-red-100' : ''}`}>
+                                        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                        <span>{msg.error}</span>
+                                    </div>
+                                )}
+                                {msg.stopped && (
+                                    <div className="text-xs text-gray-400 italic mt-2">Stopped</div>
+                                )}
+                                {msg.toolCalls && msg.toolCalls.length > 0 && (
+                                    <div className="flex flex-wrap gap-1.5 mt-3 pt-3 border-t border-gray-100">
+                                        {msg.toolCalls.map((call, i) => (
+                                            <span
+                                                key={i}
+                                                title={describeToolCall(call)}
+                                                className="inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 font-mono max-w-full truncate"
+                                            >
+                                                <Wrench className="h-3 w-3 flex-shrink-0" /> {describeToolCall(call)}
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
+                            {!isChatting && isLastQuestion && (
+                                <button onClick={() => setEditingQuestion(msg.text)} className="mt-1 flex items-center gap-1 text-xs text-gray-400 hover:text-teal-600">
+                                    <Pencil className="h-3 w-3" /> Edit
+                                </button>
+                            )}
+                            {!isChatting && isLast && msg.role === 'model' && (
+                                <button onClick={() => handleResendQuestion()} className="mt-1 flex items-center gap-1 text-xs text-gray-400 hover:text-teal-600">
+                                    <RotateCcw className="h-3 w-3" /> Regenerate
+                                </button>
+                            )}
                         </div>
-                    ))}
-                    {isChatting && (
+                        );
+                    })}
+                    {streamingReply && streamingReply.threadId === activeThreadId && (
                          <div className="flex justify-start">
-                            <div className="bg-white border border-gray-200 p-4 rounded-2xl rounded-bl-none shadow-sm">
-                                <div className="flex space-x-2">
-                                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
-                                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></div>
-                                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></div>
+                            {streamingReply.text ? (
+                                <div className="max-w-[90%] lg:max-w-[85%] p-4 rounded-2xl text-sm leading-relaxed bg-white border border-gray-200 text-gray-800 rounded-bl-none shadow-sm">
+                                    <div className="prose prose-sm max-w-none prose-teal prose-p:my-2 prose-headings:my-3 prose-ul:my-2">
+                                        <ReactMarkdown>
+                                            {streamingReply.text}
+                                        </ReactMarkdown>
+                                    </div>
                                 </div>
-                            </div>
+                            ) : (
+                                <div className="bg-white border border-gray-200 p-4 rounded-2xl rounded-bl-none shadow-sm">
+                                    <div className="flex space-x-2">
+                                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
+                                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></div>
+                                        <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></div>
+                                    </div>
+                                </div>
+                            )}
                          </div>
                     )}
                 </div>
@@ -638,13 +1644,22 @@ const App = () => {
                             onChange={(e) => setChatInput(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
                         />
-                        <button 
-                            onClick={handleSendMessage}
-                            disabled={!chatInput.trim() || isChatting}
-                            className="bg-teal-600 hover:bg-teal-700 text-white px-5 py-2.5 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                        >
-                            Send
-                        </button>
+                        {isChatting ? (
+                            <button 
+                                onClick={handleStopAnswer}
+                                className="bg-white border border-gray-200 hover:bg-gray-50 text-gray-700 px-5 py-2.5 rounded-lg font-medium flex items-center gap-2 transition-colors"
+                            >
+                                <Square className="h-4 w-4 fill-current" /> Stop
+                            </button>
+                        ) : (
+                            <button 
+                                onClick={handleSendMessage}
+                                disabled={!chatInput.trim()}
+                                className="bg-teal-600 hover:bg-teal-700 text-white px-5 py-2.5 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Send
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
@@ -660,6 +1675,11 @@ const App = () => {
                     <div>
                         <h2 className="text-2xl font-bold text-gray-900">{selectedMetric.name}</h2>
                         <span className="text-gray-500 text-sm">{selectedMetric.category}</span>
+                        {selectedMetric.derived && (
+                          <span className="ml-2 inline-flex items-center gap-1 text-xs text-indigo-600">
+                            <Calculator className="h-3 w-3" /> Calculated from your readings
+                          </span>
+                        )}
                     </div>
                     <button onClick={() => setSelectedMetric(null)} className="text-gray-400 hover:text-gray-600">
                         <X className="h-6 w-6" />
@@ -675,7 +1695,8 @@ const App = () => {
                         <div className="bg-slate-50 p-4 rounded-xl">
                             <span className="text-xs text-gray-500 uppercase font-bold tracking-wider">Status</span>
                             <div className={`text-lg font-bold mt-1 ${
-                                selectedMetric.status === 'Optimal' ? 'text-emerald-600' : 
+                                selectedMetric.status === 'Optimal' ? 'text-emerald-600' :
+                                selectedMetric.status === 'Borderline' ? 'text-yellow-600' : 
                                 selectedMetric.status === 'High' || selectedMetric.status === 'Low' ? 'text-red-600' : 'text-gray-700'
                             }`}>
                                 {selectedMetric.status}
@@ -689,10 +1710,43 @@ const App = () => {
 
                      <h3 className="font-semibold text-gray-900 mb-2">History & Trends</h3>
                      <div className="bg-white border border-gray-100 rounded-xl p-2 mb-6">
-                        <DetailChart metric={selectedMetric} />
+                        <DetailChart metric={selectedMetric} subject={rangeSubject} />
                      </div>
 
-                     <h3 className="font-semibold text-gray-900 mb-3">Data History</h3>
+                     {!selectedMetric.derived && (
+                       <>
+                         <h3 className="font-semibold text-gray-900 mb-3">Target & Watchlist</h3>
+                         <div className="mb-6">
+                           <TargetForm key={selectedMetric.id} metric={selectedMetric} onSubmit={handleSaveTarget} />
+                         </div>
+                       </>
+                     )}
+
+                     <div className="flex items-center justify-between mb-3">
+                        <h3 className="font-semibold text-gray-900">Data History</h3>
+                        {!editingPoint && !selectedMetric.derived && (
+                          <button
+                            onClick={() => setEditingPoint({})}
+                            className="text-teal-600 text-sm font-medium hover:underline flex items-center gap-1"
+                          >
+                            <Plus className="h-4 w-4" /> Add Reading
+                          </button>
+                        )}
+                     </div>
+                     {editingPoint && (
+                       <div className="mb-4">
+                         <DataPointForm
+                           key={editingPoint.index ?? 'new'}
+                           initial={toDataPointInput(
+                             editingPoint.index === undefined ? undefined : selectedMetric.dataPoints[editingPoint.index],
+                             selectedMetric.latestUnit
+                           )}
+                           submitLabel={editingPoint.index === undefined ? 'Add Reading' : 'Save Changes'}
+                           onSubmit={handleSaveDataPoint}
+                           onCancel={() => setEditingPoint(null)}
+                         />
+                       </div>
+                     )}
                      <div className="border border-gray-200 rounded-lg overflow-hidden mb-6">
                         <div className="max-h-48 overflow-y-auto">
                           <table className="w-full text-sm text-left">
@@ -716,12 +1770,31 @@ const App = () => {
                                      <td className="px-4 py-2 whitespace-nowrap text-gray-700">{dp.date}</td>
                                      <td className="px-4 py-2 font-medium text-gray-900">
                                         {dp.value} {dp.unit}
+                                        {dp.originalUnit && (
+                                          <span className="ml-1 text-xs font-normal text-gray-400" title="Converted from the reported unit">
+                                            ({dp.originalValue} {dp.originalUnit})
+                                          </span>
+                                        )}
                                         {dp.isOutOfRange && <AlertCircle className="inline-block ml-2 h-3 w-3 text-red-500" />}
+                                        {dp.note && <div className="text-xs font-normal text-gray-500 truncate max-w-[200px]" title={dp.note}>{dp.note}</div>}
                                      </td>
-                                     <td className="px-4 py-2 text-gray-400 text-xs truncate max-w-[120px]" title={dp.sourceDoc}>
-                                        {dp.sourceDoc || 'Manual Input'}
+                                     <td className="px-4 py-2 text-gray-400 text-xs truncate max-w-[120px]" title={dp.snippet ? `${dp.sourceDoc}: “${dp.snippet}”` : dp.sourceDoc}>
+                                        {dp.documentId ? (
+                                          <button onClick={() => openSourceDocument(dp)} className="hover:text-teal-600 hover:underline inline-flex items-center gap-1 max-w-full">
+                                            <FileSearch className="h-3 w-3 shrink-0" />
+                                            <span className="truncate">{dp.sourceDoc}{dp.page ? ` p.${dp.page}` : ''}</span>
+                                          </button>
+                                        ) : dp.sourceDoc || 'Manual Input'}
                                      </td>
-                                     <td className="px-4 py-2 text-right">
+                                     <td className="px-4 py-2 text-right whitespace-nowrap">
+                                       {!selectedMetric.derived && (<>
+                                       <button 
+                                        onClick={() => setEditingPoint({ index: originalIndex })} 
+                                        className="text-gray-400 hover:text-teal-600 p-1 transition-colors"
+                                        title="Edit data point"
+                                       >
+                                         <Pencil className="h-4 w-4" />
+                                       </button>
                                        <button 
                                         onClick={() => handleDeleteDataPoint(selectedMetric.id, originalIndex)} 
                                         className="text-gray-400 hover:text-red-600 p-1 transition-colors"
@@ -729,6 +1802,7 @@ const App = () => {
                                        >
                                          <Trash2 className="h-4 w-4" />
                                        </button>
+                                       </>)}
                                      </td>
                                    </tr>
                                  );
@@ -759,18 +1833,103 @@ const App = () => {
                      
                      <div className="mt-8 pt-6 border-t border-gray-100 flex justify-between items-center">
                         <span className="text-[10px] text-gray-300 font-mono">ID: {selectedMetric.id}</span>
-                        <button 
-                            onClick={() => handleDeleteMetric(selectedMetric.id)}
-                            className="text-red-600 bg-red-50 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
-                        >
-                            <Trash2 className="h-4 w-4" /> Delete Metric
-                        </button>
+                        {!selectedMetric.derived && (
+                          <button 
+                              onClick={() => handleDeleteMetric(selectedMetric.id)}
+                              className="text-red-600 bg-red-50 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2"
+                          >
+                              <Trash2 className="h-4 w-4" /> Delete Metric
+                          </button>
+                        )}
                     </div>
                 </div>
             </div>
         </div>
       )}
 
+      {viewingSource && (
+        <SourceDocumentViewer
+          point={viewingSource.point}
+          document={viewingSource.document}
+          file={viewingSource.file}
+          onClose={() => setViewingSource(null)}
+        />
+      )}
+
+      {isWritingVisitSummary && (
+        <VisitSummaryModal
+          metrics={displayedMetrics}
+          categories={categories.filter(c => c !== 'All' && c !== MetricCategory.Genetics)}
+          profile={activeProfile || undefined}
+          subject={rangeSubject}
+          onWriteOverview={handleWriteVisitOverview}
+          onClose={() => setIsWritingVisitSummary(false)}
+        />
+      )}
+
+      {isCreatingMetric && (
+        <NewMetricModal onCreate={handleCreateMetric} onClose={() => setIsCreatingMetric(false)} />
+      )}
+
+      {editingProfile && (
+        <ProfileModal
+          profile={editingProfile.profile}
+          onSave={handleSaveProfile}
+          onDelete={editingProfile.profile && profiles.length > 1 ? () => handleDeleteProfile(editingProfile.profile!) : undefined}
+          onClose={() => setEditingProfile(null)}
+        />
+      )}
+
+      {/* Restore Mode Modal */}
+      {pendingBackup && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => !isRestoring && setPendingBackup(null)}>
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Restore Backup</h2>
+            <p className="text-sm text-gray-500 mb-6">
+                Exported {pendingBackup.exportedAt.split('T')[0]} with {pendingBackup.metrics.length} metrics and {pendingBackup.documents.length} source documents.
+                {activeProfile && <> It will be restored into {activeProfile.name}'s profile{pendingBackup.profile && pendingBackup.profile.name !== activeProfile.name ? ` (exported from ${pendingBackup.profile.name})` : ''}.</>}
+            </p>
+            <div className="space-y-3">
+                <button
+                    onClick={() => handleRestoreBackup('merge')}
+                    disabled={isRestoring}
+                    className="w-full text-left p-4 rounded-xl border border-gray-200 hover:border-teal-400 hover:bg-teal-50 transition-colors disabled:opacity-50"
+                >
+                    <div className="font-semibold text-gray-900">Merge with current data</div>
+                    <div className="text-xs text-gray-500 mt-1">Adds new metrics and readings. Duplicates are skipped and conflicting values keep your current data.</div>
+                </button>
+                <button
+                    onClick={() => handleRestoreBackup('replace')}
+                    disabled={isRestoring}
+                    className="w-full text-left p-4 rounded-xl border border-gray-200 hover:border-red-300 hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                    <div className="font-semibold text-gray-900">Replace everything</div>
+                    <div className="text-xs text-gray-500 mt-1">Deletes all current metrics, documents and settings, then loads the backup.</div>
+                </button>
+            </div>
+            <button
+                onClick={() => setPendingBackup(null)}
+                disabled={isRestoring}
+                className="w-full mt-4 py-2 text-sm text-gray-500 hover:text-gray-700"
+            >
+                Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Import Review Modal */}
+      {pendingImport && (
+        <ImportReview
+          title={pendingImport.title || pendingImport.sourceDocument.name}
+          rows={pendingImport.rows}
+          existing={metrics}
+          replaceSameDay={pendingImport.replaceSameDay}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Upload Success Modal */}
       {uploadResult && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={() => setUploadResult(null)}>
@@ -780,8 +1939,31 @@ const App = () => {
                   <CheckCircle className="h-6 w-6" />
                </div>
             </div>
-            <h2 className="text-xl font-bold text-center text-gray-900 mb-2">Processing Complete</h2>
-            <p className="text-center text-gray-500 mb-6">Your health data has been successfully analyzed and integrated.</p>
+            <h2 className="text-xl font-bold text-center text-gray-900 mb-2">{uploadResult.title || 'Processing Complete'}</h2>
+            <p className="text-center text-gray-500 mb-6">
+              {uploadResult.files?.some(f => f.status === 'failed')
+                ? 'Some files could not be imported. You can retry them from the import screen.'
+                : 'Your health data has been successfully analyzed and integrated.'}
+            </p>
+
+            {uploadResult.files && (
+               <div className="mb-6">
+                  <p className="text-xs font-semibold text-gray-400 uppercase mb-2">Files</p>
+                  <div className="max-h-40 overflow-y-auto text-xs space-y-1.5">
+                    {uploadResult.files.map(file => (
+                        <div key={file.id} className="flex items-start gap-2">
+                           <div className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 ${
+                             file.status === 'merged' ? 'bg-green-500' : file.status === 'failed' ? 'bg-red-500' : 'bg-gray-400'
+                           }`}></div>
+                           <div className="min-w-0">
+                              <div className="text-gray-700 truncate" title={file.file.name}>{file.file.name}</div>
+                              <div className={file.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>{describeQueueItem(file)}</div>
+                           </div>
+                        </div>
+                    ))}
+                  </div>
+               </div>
+            )}
             
             <div className="bg-gray-50 rounded-lg p-4 space-y-2 mb-6">
                 <div className="flex justify-between items-center">
@@ -792,9 +1974,27 @@ const App = () => {
                     <span className="text-sm font-medium text-gray-600">Existing Metrics Updated</span>
                     <span className="text-sm font-bold text-gray-900 bg-white px-2 py-1 rounded border border-gray-200">{uploadResult.updated.length}</span>
                 </div>
+                {uploadResult.rejected.length > 0 && (
+                  <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-600">Skipped (Unit Mismatch)</span>
+                      <span className="text-sm font-bold text-red-700 bg-white px-2 py-1 rounded border border-gray-200">{uploadResult.rejected.length}</span>
+                  </div>
+                )}
+                {uploadResult.conflicts.length > 0 && (
+                  <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-600">Conflicts (Kept Existing)</span>
+                      <span className="text-sm font-bold text-amber-700 bg-white px-2 py-1 rounded border border-gray-200">{uploadResult.conflicts.length}</span>
+                  </div>
+                )}
+                {!!uploadResult.alerts?.length && (
+                  <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-600">Watchlist Alerts</span>
+                      <span className="text-sm font-bold text-amber-700 bg-white px-2 py-1 rounded border border-gray-200">{uploadResult.alerts.length}</span>
+                  </div>
+                )}
             </div>
 
-            {(uploadResult.added.length > 0 || uploadResult.updated.length > 0) && (
+            {(uploadResult.added.length > 0 || uploadResult.updated.length > 0 || uploadResult.rejected.length > 0 || uploadResult.conflicts.length > 0) && (
                <div className="mb-6">
                   <p className="text-xs font-semibold text-gray-400 uppercase mb-2">Details</p>
                   <div className="max-h-32 overflow-y-auto text-xs text-gray-500 space-y-1">
@@ -808,6 +2008,21 @@ const App = () => {
                            <div className="w-1.5 h-1.5 rounded-full bg-blue-500"></div> Updated: {name}
                         </div>
                     ))}
+                    {uploadResult.rejected.map((item, i) => (
+                        <div key={`rej-${i}`} className="flex items-center gap-2">
+                           <div className="w-1.5 h-1.5 rounded-full bg-red-500"></div> Skipped: {item.name} ({item.reason})
+                        </div>
+                    ))}
+                    {uploadResult.conflicts.map((c, i) => (
+                        <div key={`con-${i}`} className="flex items-center gap-2">
+                           <div className="w-1.5 h-1.5 rounded-full bg-amber-500"></div> Conflict: {c.name} on {c.date} (kept {c.existing}, backup had {c.incoming})
+                        </div>
+                    ))}
+                    {uploadResult.alerts?.map(alert => (
+                        <div key={alert.id} className="flex items-center gap-2">
+                           <Bell className="h-3 w-3 text-amber-500 shrink-0" /> {alert.message}
+                        </div>
+                    ))}
                   </div>
                </div>
             )}
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import {
+  AI_PROVIDER_LABELS,
+  AI_TASK_LABELS,
+  AiProviderId,
+  AiSettings,
+  AiTask,
+  DEFAULT_BASE_URL,
+  DEFAULT_MODELS
+} from '../services/aiProvider';
+import { CheckCircle } from 'lucide-react';
+
+interface AiSettingsViewProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => Promise<boolean>; // false when saving failed
+}
+
+const PROVIDER_NOTES: Record<AiProviderId, string> = {
+  gemini: 'Uses the GEMINI_API_KEY from .env.local. Reads PDFs and images.',
+  'openai-compatible': 'Any server with an OpenAI-style /chat/completions endpoint, such as Ollama or llama.cpp. PDFs are not supported; paste the report text instead.',
+  mock: 'Canned answers that never leave the browser. The demo report on the import screen extracts to a fixed set of results.',
+};
+
+const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const AiSettingsView: React.FC<AiSettingsViewProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const update = (patch: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  // Model names rarely carry over between providers, so switching starts from the defaults
+  const changeProvider = (provider: AiProviderId) =>
+    update({
+      provider,
+      models: DEFAULT_MODELS[provider],
+      baseUrl: provider === 'openai-compatible' ? draft.baseUrl || DEFAULT_BASE_URL : draft.baseUrl
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSaved(await onSave(draft));
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-slate-900">AI Settings</h1>
+        <p className="text-slate-500 mt-1">Choose which model reads your reports, matches metrics and answers in the advisor.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-gray-100 shadow-sm p-6 space-y-5">
+        <label className="block text-xs font-medium text-gray-500">
+          Provider
+          <select value={draft.provider} onChange={e => changeProvider(e.target.value as AiProviderId)} className={inputClass}>
+            {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+              <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+          <span className="block mt-1 text-[11px] text-gray-400 font-normal">{PROVIDER_NOTES[draft.provider]}</span>
+        </label>
+
+        {draft.provider === 'openai-compatible' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-gray-500">
+              Server URL
+              <input
+                value={draft.baseUrl || ''}
+                onChange={e => update({ baseUrl: e.target.value })}
+                placeholder={DEFAULT_BASE_URL}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-500">
+              API Key (optional)
+              <input
+                type="password"
+                value={draft.apiKey || ''}
+                onChange={e => update({ apiKey: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="text-xs font-semibold tracking-wide uppercase text-gray-400">Models</div>
+          {(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => (
+            <label key={task} className="block text-xs font-medium text-gray-500">
+              {AI_TASK_LABELS[task]}
+              <input
+                value={draft.models[task]}
+                onChange={e => update({ models: { ...draft.models, [task]: e.target.value } })}
+                placeholder={DEFAULT_MODELS[draft.provider][task]}
+                disabled={draft.provider === 'mock'}
+                className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-400`}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end items-center gap-3 pt-2">
+          {saved && (
+            <span className="flex items-center gap-1 text-sm text-green-600">
+              <CheckCircle className="h-4 w-4" /> Saved
+            </span>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-6 py-2 rounded-lg text-white font-medium bg-teal-600 hover:bg-teal-700 shadow-md disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AiSettingsView;
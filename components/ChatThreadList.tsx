@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ChatThread } from '../types';
+import { Check, Download, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface ChatThreadListProps {
+  threads: ChatThread[]; // newest first
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (thread: ChatThread, title: string) => void;
+  onDelete: (thread: ChatThread) => void;
+  onExport: (thread: ChatThread) => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, activeId, onSelect, onNew, onRename, onDelete, onExport }) => {
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+
+  const submitRename = (thread: ChatThread) => {
+    if (renaming?.title.trim()) onRename(thread, renaming.title.trim());
+    setRenaming(null);
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 bg-white rounded-xl border border-gray-200 shadow-sm flex flex-col overflow-hidden">
+      <div className="p-3 border-b border-gray-100">
+        <button
+          onClick={onNew}
+          className="w-full bg-teal-600 hover:bg-teal-700 text-white px-3 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+        >
+          <Plus className="h-4 w-4" /> New Conversation
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.length === 0 && (
+          <p className="text-xs text-gray-400 text-center mt-6 px-4">Conversations are saved here automatically.</p>
+        )}
+        {threads.map(thread => {
+          const isActive = thread.id === activeId;
+          if (renaming?.id === thread.id) {
+            return (
+              <form
+                key={thread.id}
+                onSubmit={e => { e.preventDefault(); submitRename(thread); }}
+                className="flex items-center gap-1 p-1"
+              >
+                <input
+                  autoFocus
+                  value={renaming.title}
+                  onChange={e => setRenaming({ id: thread.id, title: e.target.value })}
+                  onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+                  className="flex-1 min-w-0 px-2 py-1 border border-gray-200 rounded text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                />
+                <button type="submit" title="Save" className="p-1 text-teal-600 hover:bg-teal-50 rounded">
+                  <Check className="h-4 w-4" />
+                </button>
+                <button type="button" title="Cancel" onClick={() => setRenaming(null)} className="p-1 text-gray-400 hover:bg-gray-100 rounded">
+                  <X className="h-4 w-4" />
+                </button>
+              </form>
+            );
+          }
+
+          return (
+            <div key={thread.id} className={`group flex items-center rounded-lg transition-colors ${isActive ? 'bg-teal-50' : 'hover:bg-gray-50'}`}>
+              <button onClick={() => onSelect(thread.id)} className="flex-1 min-w-0 flex items-start gap-2 px-2 py-2 text-left">
+                <MessageSquare className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isActive ? 'text-teal-600' : 'text-gray-400'}`} />
+                <span className="min-w-0">
+                  <span className={`block text-sm truncate ${isActive ? 'text-teal-700 font-medium' : 'text-gray-700'}`}>{thread.title}</span>
+                  <span className="block text-[11px] text-gray-400">{new Date(thread.updatedAt).toLocaleDateString()}</span>
+                </span>
+              </button>
+              <div className="flex opacity-0 group-hover:opacity-100 transition-opacity pr-1">
+                <button onClick={() => setRenaming({ id: thread.id, title: thread.title })} title="Rename" className="p-1 text-gray-400 hover:text-teal-600">
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button onClick={() => onExport(thread)} title="Export as Markdown" className="p-1 text-gray-400 hover:text-teal-600">
+                  <Download className="h-3.5 w-3.5" />
+                </button>
+                <button onClick={() => onDelete(thread)} title="Delete" className="p-1 text-gray-400 hover:text-red-600">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
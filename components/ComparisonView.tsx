@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+  Brush
+} from 'recharts';
+import { ArrowLeft, X } from 'lucide-react';
+import { HealthMetric } from '../types';
+import { RangeSubject } from '../services/referenceRanges';
+import { COMPARISON_SCALE_LABELS, ComparisonScale, ComparisonSeries, buildComparisonData, readingAt } from '../services/metricComparison';
+
+interface ComparisonViewProps {
+  metrics: HealthMetric[]; // selected, in the order they were picked
+  available: HealthMetric[];
+  subject?: RangeSubject;
+  onChange: (metricIds: string[]) => void;
+  onBack: () => void;
+}
+
+const COLORS = ['#0d9488', '#6366f1', '#f59e0b', '#ef4444', '#0ea5e9', '#8b5cf6', '#84cc16', '#ec4899'];
+
+const formatDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+// One tooltip for every line: each metric's reading in effect at the hovered date
+const ComparisonTooltip: React.FC<{ active?: boolean; label?: number; series: ComparisonSeries[] }> = ({ active, label, series }) => {
+  if (!active || label === undefined) return null;
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 text-xs space-y-1">
+      <div className="font-semibold text-gray-700">{formatDate(label)}</div>
+      {series.map((s, i) => {
+        const dp = readingAt(s.points, label);
+        return (
+          <div key={s.metric.id} className="flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+            <span className="text-gray-600">{s.metric.name}:</span>
+            {dp ? (
+              <span className="font-medium text-gray-900">
+                {dp.value} {dp.unit}
+                {formatDate(new Date(dp.date).getTime()) !== formatDate(label) && <span className="font-normal text-gray-400"> ({dp.date})</span>}
+              </span>
+            ) : (
+              <span className="text-gray-400">no reading yet</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ metrics, available, subject, onChange, onBack }) => {
+  const [scale, setScale] = useState<ComparisonScale>('axes');
+  const { series, rows, units } = useMemo(() => buildComparisonData(metrics, scale, subject), [metrics, scale, subject]);
+
+  const drawn = series.filter(s => !s.skipped);
+  const skipped = series.filter(s => s.skipped);
+  const colorOf = (s: ComparisonSeries) => COLORS[series.indexOf(s) % COLORS.length];
+  const hasRightAxis = scale === 'axes' && drawn.some(s => s.axis === 'right');
+  const selectedIds = metrics.map(m => m.id);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Compare Metrics</h1>
+          <p className="text-slate-500 mt-1">Several metrics on one time axis. Drag the handles below the chart to zoom into a period.</p>
+        </div>
+        <button onClick={onBack} className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" /> Dashboard
+        </button>
+      </div>
+
+      <div className="bg-white border border-gray-100 rounded-xl shadow-sm p-4 mb-4 flex flex-wrap items-center gap-2">
+        {series.map(s => (
+          <span key={s.metric.id} className="flex items-center gap-2 text-sm bg-gray-50 border border-gray-200 rounded-full pl-3 pr-1 py-1">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: colorOf(s) }} />
+            {s.metric.name}
+            <span className="text-xs text-gray-400">{s.unit}</span>
+            <button onClick={() => onChange(selectedIds.filter(id => id !== s.metric.id))} className="text-gray-400 hover:text-red-600 p-0.5" title="Remove">
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={e => e.target.value && onChange([...selectedIds, e.target.value])}
+          className="text-sm border border-gray-200 rounded-lg px-2 py-1.5 text-gray-600"
+        >
+          <option value="">Add metric…</option>
+          {available.filter(m => !selectedIds.includes(m.id)).map(m => (
+            <option key={m.id} value={m.id}>{m.name}</option>
+          ))}
+        </select>
+
+        <div className="ml-auto flex gap-1 bg-gray-100 rounded-lg p-1">
+          {(Object.keys(COMPARISON_SCALE_LABELS) as ComparisonScale[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setScale(option)}
+              className={`text-xs px-3 py-1 rounded-md ${scale === option ? 'bg-white shadow-sm text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {COMPARISON_SCALE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {metrics.length < 2 ? (
+        <div className="text-center py-20 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+          Pick at least two metrics to compare.
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-100 rounded-xl shadow-sm p-4">
+          <ResponsiveContainer width="100%" height={420}>
+            <ComposedChart data={rows} margin={{ top: 5, right: hasRightAxis ? 10 : 30, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatDate}
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                yAxisId="left"
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+                axisLine={false}
+                domain={['auto', 'auto']}
+                label={scale === 'axes' ? { value: units[0], angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 11 } : undefined}
+              />
+              {hasRightAxis && (
+                <YAxis
+                  yAxisId="right"
+                  orientation="right"
+                  stroke="#94a3b8"
+                  fontSize={12}
+                  tickLine={false}
+                  axisLine={false}
+                  domain={['auto', 'auto']}
+                  label={{ value: units[1], angle: 90, position: 'insideRight', fill: '#94a3b8', fontSize: 11 }}
+                />
+              )}
+              <Tooltip content={({ active, label }) => <ComparisonTooltip active={active} label={label as number} series={drawn} />} />
+
+              {/* 0-100% is inside the reference range */}
+              {scale === 'range' && <ReferenceArea yAxisId="left" y1={0} y2={100} fill="#10b981" fillOpacity={0.05} />}
+              {scale === 'zscore' && <ReferenceLine yAxisId="left" y={0} stroke="#94a3b8" strokeDasharray="3 3" />}
+
+              {drawn.map(s => (
+                <Line
+                  key={s.metric.id}
+                  yAxisId={scale === 'axes' ? s.axis : 'left'}
+                  dataKey={s.metric.id}
+                  name={s.metric.name}
+                  stroke={colorOf(s)}
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: colorOf(s), strokeWidth: 0 }}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+              <Brush dataKey="time" height={24} stroke="#0d9488" tickFormatter={formatDate} />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          {skipped.length > 0 && (
+            <ul className="mt-3 text-xs text-gray-500 space-y-0.5">
+              {skipped.map(s => (
+                <li key={s.metric.id}>Not shown: {s.metric.name} ({s.skipped})</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
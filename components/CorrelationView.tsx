@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer
+} from 'recharts';
+import { HealthMetric } from '../types';
+import {
+  CORRELATION_METHOD_LABELS,
+  CorrelationMethod,
+  CorrelationResult,
+  DEFAULT_TOLERANCE_DAYS,
+  MIN_PAIRS,
+  TOLERANCE_OPTIONS,
+  computeCorrelations,
+  getCoefficient,
+  topCorrelations
+} from '../services/correlations';
+
+interface CorrelationViewProps {
+  metrics: HealthMetric[];
+}
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Teal for positive, red for negative; stronger is more opaque
+const cellColor = (r: number) =>
+  r >= 0 ? `rgba(13, 148, 136, ${Math.abs(r)})` : `rgba(239, 68, 68, ${Math.abs(r)})`;
+
+const CorrelationView: React.FC<CorrelationViewProps> = ({ metrics }) => {
+  const [toleranceDays, setToleranceDays] = useState(DEFAULT_TOLERANCE_DAYS);
+  const [method, setMethod] = useState<CorrelationMethod>('spearman');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const results = useMemo(() => computeCorrelations(metrics, toleranceDays), [metrics, toleranceDays]);
+  const byKey = useMemo(() => new Map(results.map(r => [pairKey(r.a.id, r.b.id), r])), [results]);
+  // Only metrics that share enough readings with at least one other get a row
+  const involved = metrics.filter(m => results.some(r => r.a.id === m.id || r.b.id === m.id));
+  const top = topCorrelations(results, 10, 0.5, method);
+  const selected = selectedKey ? byKey.get(selectedKey) : undefined;
+
+  const renderSummary = (r: CorrelationResult) => (
+    <>
+      <span className="font-medium text-gray-900">{r.a.name}</span> vs <span className="font-medium text-gray-900">{r.b.name}</span>
+      <span className="text-gray-500"> · r = {getCoefficient(r, method)} · n = {r.n}</span>
+    </>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="flex flex-col md:flex-row md:items-end justify-between mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Correlations</h1>
+          <p className="text-slate-500 mt-1">
+            How metrics move together. Readings are paired when taken within the tolerance of each other; pairs need at least {MIN_PAIRS} matches.
+          </p>
+        </div>
+        <div className="flex gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-600">
+            Tolerance
+            <select
+              value={toleranceDays}
+              onChange={e => setToleranceDays(Number(e.target.value))}
+              className="border border-gray-200 rounded-lg px-2 py-1.5"
+            >
+              {TOLERANCE_OPTIONS.map(days => (
+                <option key={days} value={days}>{days === 0 ? 'Same day' : `±${days} days`}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex gap-1 bg-gray-100 rounded-lg p-1">
+            {(Object.keys(CORRELATION_METHOD_LABELS) as CorrelationMethod[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setMethod(option)}
+                className={`text-xs px-3 py-1 rounded-md ${method === option ? 'bg-white shadow-sm text-gray-900 font-medium' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {CORRELATION_METHOD_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+          No two metrics have {MIN_PAIRS} or more readings close enough in time. Try a wider tolerance or import more history.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          <div className="xl:col-span-2 bg-white border border-gray-100 rounded-xl shadow-sm p-4 overflow-auto">
+            <table className="text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr>
+                  <th />
+                  {involved.map(m => (
+                    <th key={m.id} className="h-32 align-bottom font-medium text-gray-500">
+                      <div className="w-6 [writing-mode:vertical-rl] rotate-180 truncate max-h-32" title={m.name}>{m.name}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {involved.map(row => (
+                  <tr key={row.id}>
+                    <th className="text-right font-medium text-gray-500 pr-2 whitespace-nowrap max-w-[160px] truncate" title={row.name}>{row.name}</th>
+                    {involved.map(col => {
+                      if (row.id === col.id) return <td key={col.id} className="w-6 h-6 bg-gray-100 rounded" />;
+                      const key = pairKey(row.id, col.id);
+                      const result = byKey.get(key);
+                      if (!result) return <td key={col.id} className="w-6 h-6 bg-gray-50 rounded" title="Not enough paired readings" />;
+                      const r = getCoefficient(result, method);
+                      return (
+                        <td
+                          key={col.id}
+                          onClick={() => setSelectedKey(key)}
+                          title={`${row.name} vs ${col.name}: r = ${r}, n = ${result.n}`}
+                          className={`w-6 h-6 rounded cursor-pointer ${selectedKey === key ? 'ring-2 ring-slate-900' : ''}`}
+                          style={{ backgroundColor: cellColor(r) }}
+                        />
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex items-center gap-2 mt-4 text-xs text-gray-500">
+              <span className="w-3 h-3 rounded" style={{ backgroundColor: cellColor(-1) }} /> -1
+              <span className="w-3 h-3 rounded bg-gray-50 border border-gray-200" /> 0
+              <span className="w-3 h-3 rounded" style={{ backgroundColor: cellColor(1) }} /> +1
+              <span className="ml-2">Correlation is not causation; n is the number of paired readings.</span>
+            </div>
+          </div>
+
+          <div className="bg-white border border-gray-100 rounded-xl shadow-sm p-4">
+            <h3 className="font-semibold text-gray-900 mb-3">Strongest Correlations</h3>
+            {top.length === 0 ? (
+              <p className="text-sm text-gray-500">No pair reaches |r| ≥ 0.5.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {top.map(r => (
+                  <li key={pairKey(r.a.id, r.b.id)}>
+                    <button onClick={() => setSelectedKey(pairKey(r.a.id, r.b.id))} className="text-left hover:underline">
+                      {renderSummary(r)}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-white border border-gray-100 rounded-xl shadow-sm p-4 mt-6">
+          <div className="text-sm mb-2">
+            {renderSummary(selected)}
+            <span className="text-gray-500"> · Pearson {selected.pearson}, Spearman {selected.spearman}</span>
+          </div>
+          <ResponsiveContainer width="100%" height={350}>
+            <ScatterChart margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis
+                type="number"
+                dataKey="x"
+                name={selected.a.name}
+                unit={` ${selected.a.latestUnit}`}
+                domain={['auto', 'auto']}
+                stroke="#94a3b8"
+                fontSize={12}
+                label={{ value: selected.a.name, position: 'insideBottom', offset: -10, fill: '#64748b', fontSize: 12 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="y"
+                name={selected.b.name}
+                unit={` ${selected.b.latestUnit}`}
+                domain={['auto', 'auto']}
+                stroke="#94a3b8"
+                fontSize={12}
+                label={{ value: selected.b.name, angle: -90, position: 'insideLeft', fill: '#64748b', fontSize: 12 }}
+              />
+              <Tooltip
+                cursor={{ strokeDasharray: '3 3' }}
+                labelFormatter={() => ''}
+                formatter={(value, name, item) => [value, `${name} (${(item.payload as { date: string }).date})`]}
+              />
+              <Scatter data={selected.pairs} fill="#0d9488" />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrelationView;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { DataPointInput } from '../services/metricEditor';
+
+interface DataPointFormProps {
+  initial: DataPointInput;
+  submitLabel: string;
+  // Returns an error message to show, or nothing when the point was saved
+  onSubmit: (input: DataPointInput) => string | undefined;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const DataPointForm: React.FC<DataPointFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [input, setInput] = useState<DataPointInput>(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof DataPointInput) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setInput(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(onSubmit(input) || null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <label className="text-xs font-medium text-gray-500">
+          Date
+          <input type="date" value={input.date} onChange={update('date')} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Value
+          <input type="number" step="any" value={input.value} onChange={update('value')} className={`${inputClass} mt-1`} autoFocus />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Unit
+          <input value={input.unit} onChange={update('unit')} className={`${inputClass} mt-1`} />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Reference Range
+          <input value={input.referenceRange} onChange={update('referenceRange')} placeholder="e.g. 30-100" className={`${inputClass} mt-1`} />
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-gray-500">
+        Note
+        <input value={input.note} onChange={update('note')} placeholder="Optional, e.g. taken after coffee" className={`${inputClass} mt-1`} />
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm font-medium">
+          Cancel
+        </button>
+        <button type="submit" className="px-4 py-2 bg-teal-600 hover:bg-teal-700 text-white rounded-lg text-sm font-medium">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default DataPointForm;
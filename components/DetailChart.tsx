@@ -1,7 +1,8 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,52 +11,69 @@ import {
   ReferenceArea,
   ReferenceLine
 } from 'recharts';
-import { HealthMetric } from '../types';
+import { HealthMetric, ReferenceRange } from '../types';
+import { RangeSubject, getEffectiveRanges, selectRange } from '../services/referenceRanges';
+import { TREND_WINDOW_LABELS, TrendWindow, analyzeTrend, describeTrend } from '../services/trendAnalytics';
 
 interface DetailChartProps {
   metric: HealthMetric;
+  subject?: RangeSubject;
 }
 
-const DetailChart: React.FC<DetailChartProps> = ({ metric }) => {
-  // Parse reference range to draw a "safe zone" background if possible
-  // Assuming format "x-y" or "<x" or ">y"
-  let yMin: number | undefined;
-  let yMax: number | undefined;
+const formatDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+const DetailChart: React.FC<DetailChartProps> = ({ metric, subject }) => {
+  const [trendWindow, setTrendWindow] = useState<TrendWindow>('all');
+
+  // Draw the lab range as a "safe zone" and the optimal band, or the personal target, on top of it
+  let lab: ReferenceRange | undefined;
+  let optimal: ReferenceRange | undefined;
 
-  // Simple parsing logic for demo purposes
   if (metric.dataPoints.length > 0) {
-    const ref = metric.dataPoints[metric.dataPoints.length - 1].referenceRange;
-    if (ref) {
-        const dashSplit = ref.split('-');
-        if (dashSplit.length === 2) {
-            yMin = parseFloat(dashSplit[0]);
-            yMax = parseFloat(dashSplit[1]);
-        } else if (ref.includes('<')) {
-            yMax = parseFloat(ref.replace('<', '').trim());
-            yMin = 0; 
-        } else if (ref.includes('>')) {
-            yMin = parseFloat(ref.replace('>', '').trim());
-            // No upper bound usually
-        }
-    }
+    const ranges = getEffectiveRanges(metric.dataPoints[metric.dataPoints.length - 1], metric);
+    lab = selectRange(ranges, 'lab', subject);
+    optimal = selectRange(ranges, 'optimal', subject);
   }
 
-  const data = metric.dataPoints.map(dp => ({
-    date: dp.date,
-    value: dp.value,
-    unit: dp.unit
-  }));
+  const yMin = lab?.low?.value;
+  const yMax = lab?.high?.value;
+
+  const trend = analyzeTrend(metric, trendWindow, subject);
+  const showTrend = trend && trend.confidence !== 'insufficient';
+
+  // Readings, the fitted line and the forecast share a time axis, so each row only fills its own keys.
+  // The forecast starts at the last reading, where the fitted line ends.
+  const data: { time: number; [key: string]: unknown }[] = [
+    ...metric.dataPoints.map(dp => ({ time: new Date(dp.date).getTime(), value: dp.value, unit: dp.unit })),
+    ...(showTrend ? [{ time: trend.line[0].time, trend: trend.line[0].value }] : []),
+    ...(showTrend ? trend.forecast.map(p => ({ time: p.time, trend: p.value, band: [p.low, p.high] })) : [])
+  ].sort((a, b) => a.time - b.time);
 
   return (
-    <div className="w-full h-[350px] mt-4">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart
+    <div className="w-full mt-4">
+      <div className="flex justify-end gap-1 px-2">
+        {(Object.keys(TREND_WINDOW_LABELS) as TrendWindow[]).map(w => (
+          <button
+            key={w}
+            onClick={() => setTrendWindow(w)}
+            className={`text-xs px-2 py-0.5 rounded ${trendWindow === w ? 'bg-teal-50 text-teal-700 font-medium' : 'text-gray-400 hover:text-gray-600'}`}
+          >
+            {TREND_WINDOW_LABELS[w]}
+          </button>
+        ))}
+      </div>
+      <ResponsiveContainer width="100%" height={350}>
+        <ComposedChart
           data={data}
           margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
         >
           <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" vertical={false} />
           <XAxis 
-            dataKey="date" 
+            dataKey="time" 
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatDate}
             stroke="#94a3b8" 
             fontSize={12} 
             tickLine={false}
@@ -69,6 +87,7 @@ const DetailChart: React.FC<DetailChartProps> = ({ metric }) => {
             domain={['auto', 'auto']}
           />
           <Tooltip 
+            labelFormatter={time => formatDate(Number(time))}
             contentStyle={{ 
                 backgroundColor: '#fff', 
                 borderRadius: '8px', 
@@ -81,22 +100,72 @@ const DetailChart: React.FC<DetailChartProps> = ({ metric }) => {
           {yMin !== undefined && yMax !== undefined && (
              <ReferenceArea y1={yMin} y2={yMax} fill="#10b981" fillOpacity={0.05} />
           )}
+
+          {/* Optimal band, open-ended sides extend to the chart edge */}
+          {optimal && (optimal.low || optimal.high) && (metric.target ? (
+             <ReferenceArea
+               y1={optimal.low?.value}
+               y2={optimal.high?.value}
+               fill="#8b5cf6"
+               fillOpacity={0.1}
+               stroke="#8b5cf6"
+               strokeOpacity={0.4}
+               strokeDasharray="4 4"
+               label={{ value: 'Your target', position: 'insideTopLeft', fill: '#7c3aed', fontSize: 10 }}
+             />
+          ) : (
+             <ReferenceArea y1={optimal.low?.value} y2={optimal.high?.value} fill="#0d9488" fillOpacity={0.08} />
+          ))}
           
           {/* If only max (e.g. < 5.7) */}
-          {yMin === 0 && yMax !== undefined && (
+          {yMin === undefined && yMax !== undefined && (
              <ReferenceLine y={yMax} stroke="#ef4444" strokeDasharray="3 3" label={{ value: 'Max', position: 'insideTopRight', fill: '#ef4444', fontSize: 10 }} />
           )}
 
+          {/* If only min (e.g. > 59) */}
+          {yMin !== undefined && yMax === undefined && (
+             <ReferenceLine y={yMin} stroke="#ef4444" strokeDasharray="3 3" label={{ value: 'Min', position: 'insideBottomRight', fill: '#ef4444', fontSize: 10 }} />
+          )}
+
+          {/* Forecast band and fitted trend line */}
+          {showTrend && (
+            <Area dataKey="band" name="Forecast range" stroke="none" fill="#6366f1" fillOpacity={0.1} connectNulls isAnimationActive={false} />
+          )}
+          {showTrend && (
+            <Line dataKey="trend" name="Trend" stroke="#6366f1" strokeWidth={1.5} strokeDasharray="5 4" dot={false} activeDot={false} connectNulls isAnimationActive={false} />
+          )}
+          {trend?.projection && (
+            <ReferenceLine x={new Date(trend.projection.date).getTime()} stroke="#f59e0b" strokeDasharray="3 3" />
+          )}
+
           <Line
             type="monotone"
             dataKey="value"
+            name={metric.name}
             stroke="#0d9488"
             strokeWidth={3}
             dot={{ r: 4, fill: '#0d9488', strokeWidth: 2, stroke: '#fff' }}
             activeDot={{ r: 6 }}
+            connectNulls
           />
-        </LineChart>
+        </ComposedChart>
       </ResponsiveContainer>
+      {trend && (
+        <p className="text-xs text-gray-500 px-2 pt-1">
+          {describeTrend(trend)}
+          {showTrend && ` · R² ${trend.r2} over ${trend.points} readings`}
+          {trend.projection && (
+            <span className="text-amber-600">
+              {` · On this trend it crosses the ${trend.projection.bound === 'high' ? 'upper' : 'lower'} limit of ${trend.projection.value} ${trend.unit} around ${trend.projection.date}`}
+            </span>
+          )}
+        </p>
+      )}
+      {metric.derived && (
+        <p className="text-xs text-gray-500 px-2 pt-1">
+          Formula: {metric.derived.formula}. Each point pairs readings taken on or near the same date.
+        </p>
+      )}
     </div>
   );
 };
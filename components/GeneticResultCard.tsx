@@ -0,0 +1,45 @@
+import React from 'react';
+import { GeneticResult } from '../types';
+import { Dna } from 'lucide-react';
+
+interface GeneticResultCardProps {
+  result: GeneticResult;
+}
+
+const GeneticResultCard: React.FC<GeneticResultCardProps> = ({ result }) => {
+  return (
+    <div className="bg-white p-5 rounded-xl border border-gray-100 shadow-sm" title={result.description}>
+      <div className="flex justify-between items-start mb-2">
+        <h3 className="text-sm font-medium text-gray-500 truncate pr-2">
+          {result.name}
+        </h3>
+        <span className={`
+          text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase
+          ${result.flagged ? 'bg-violet-50 text-violet-700' : 'bg-emerald-50 text-emerald-700'}
+        `}>
+          {result.flagged ? 'Variant' : 'Typical'}
+        </span>
+      </div>
+
+      <div className="flex items-baseline gap-2 mt-1">
+        <span className="text-2xl font-bold text-gray-900 font-mono">
+          {result.genotype}
+        </span>
+        <span className="text-xs text-gray-400 font-medium">
+          {result.rsids.join(' + ')}
+        </span>
+      </div>
+
+      <p className="text-xs text-gray-600 mt-3 leading-relaxed">{result.interpretation}</p>
+
+      <div className="flex items-center gap-1.5 mt-4">
+        <Dna size={16} className="text-gray-400" />
+        <span className="text-xs text-gray-400 truncate">
+          {result.gene} · {result.sourceDoc || result.date}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default GeneticResultCard;
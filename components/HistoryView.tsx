@@ -0,0 +1,96 @@
+import React from 'react';
+import { ChangeKind, ChangeLogEntry } from '../types';
+import { Redo2, RotateCcw, Undo2 } from 'lucide-react';
+
+interface HistoryViewProps {
+  entries: ChangeLogEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (entry: ChangeLogEntry) => void;
+  // An import can be reverted while any of its points are still present
+  isRevertable: (entry: ChangeLogEntry) => boolean;
+}
+
+const KIND_STYLES: Record<ChangeKind, string> = {
+  import: 'bg-teal-50 text-teal-700',
+  create: 'bg-green-50 text-green-700',
+  edit: 'bg-blue-50 text-blue-700',
+  delete: 'bg-red-50 text-red-700',
+  revert: 'bg-amber-50 text-amber-700',
+  undo: 'bg-gray-100 text-gray-600',
+  redo: 'bg-gray-100 text-gray-600',
+};
+
+const countPoints = (entry: ChangeLogEntry) =>
+  entry.changes.reduce((sum, c) => sum + Math.abs((c.after?.dataPoints.length || 0) - (c.before?.dataPoints.length || 0)), 0);
+
+const HistoryView: React.FC<HistoryViewProps> = ({ entries, canUndo, canRedo, onUndo, onRedo, onRevert, isRevertable }) => {
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Change History</h1>
+          <p className="text-slate-500 mt-1">Every import, edit and deletion, newest first.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <Undo2 className="h-4 w-4" /> Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <Redo2 className="h-4 w-4" /> Redo
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="bg-white rounded-xl border border-dashed border-gray-300 p-10 text-center text-gray-500">
+          No changes recorded yet.
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm divide-y divide-gray-100">
+          {[...entries].reverse().map(entry => {
+            const points = countPoints(entry);
+            return (
+              <div key={entry.id} className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase ${KIND_STYLES[entry.kind]}`}>
+                      {entry.kind}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900 truncate">{entry.description}</span>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.changes.length} {entry.changes.length === 1 ? 'metric' : 'metrics'}
+                    {points > 0 && ` · ${points} ${points === 1 ? 'point' : 'points'}`}
+                  </p>
+                </div>
+                {entry.kind === 'import' && isRevertable(entry) && (
+                  <button
+                    onClick={() => onRevert(entry)}
+                    className="text-amber-700 bg-amber-50 hover:bg-amber-100 px-3 py-1.5 rounded-lg text-xs font-medium flex items-center gap-1 flex-shrink-0"
+                  >
+                    <RotateCcw className="h-3 w-3" /> Revert Import
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { FileText, RotateCcw } from 'lucide-react';
+import { IMPORT_STATUS_LABELS, ImportFileStatus, ImportQueueItem, MAX_IMPORT_ATTEMPTS, describeQueueItem } from '../services/importQueue';
+
+interface ImportQueueListProps {
+  items: ImportQueueItem[];
+  isRunning: boolean;
+  onRetryFailed: () => void;
+}
+
+const STATUS_STYLES: Record<ImportFileStatus, string> = {
+  queued: 'bg-gray-100 text-gray-500',
+  parsing: 'bg-blue-50 text-blue-700',
+  retrying: 'bg-amber-50 text-amber-700',
+  waiting: 'bg-gray-100 text-gray-600',
+  normalizing: 'bg-indigo-50 text-indigo-700',
+  merged: 'bg-green-50 text-green-700',
+  skipped: 'bg-gray-100 text-gray-500',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const isActive = (status: ImportFileStatus) => status === 'parsing' || status === 'normalizing';
+const isFinished = (status: ImportFileStatus) => status === 'merged' || status === 'skipped' || status === 'failed';
+
+const ImportQueueList: React.FC<ImportQueueListProps> = ({ items, isRunning, onRetryFailed }) => {
+  const done = items.filter(i => isFinished(i.status)).length;
+  const failed = items.filter(i => i.status === 'failed').length;
+
+  return (
+    <div className="mt-6 border border-gray-200 rounded-lg overflow-hidden">
+      <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">
+          {isRunning ? `Importing ${done} of ${items.length} files...` : `${done} of ${items.length} files processed`}
+        </span>
+        {!isRunning && failed > 0 && (
+          <button onClick={onRetryFailed} className="text-sm text-teal-600 hover:underline font-medium flex items-center gap-1">
+            <RotateCcw className="h-3 w-3" /> Retry {failed} failed
+          </button>
+        )}
+      </div>
+      <div className="h-1 bg-gray-100">
+        <div className="h-full bg-teal-500 transition-all" style={{ width: `${(done / items.length) * 100}%` }} />
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+        {items.map(item => (
+          <li key={item.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+            <FileText className="h-4 w-4 text-gray-400 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-gray-900 truncate" title={item.file.name}>{item.file.name}</div>
+              {(item.status === 'retrying' || isFinished(item.status)) && (
+                <div className={`text-xs truncate ${item.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`} title={describeQueueItem(item)}>
+                  {item.status === 'retrying'
+                    ? `Attempt ${item.attempts} of ${MAX_IMPORT_ATTEMPTS} failed: ${item.error}`
+                    : describeQueueItem(item)}
+                </div>
+              )}
+            </div>
+            <span className={`text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase shrink-0 flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+              {isActive(item.status) && <div className="animate-spin h-2.5 w-2.5 border-2 border-current border-t-transparent rounded-full"></div>}
+              {IMPORT_STATUS_LABELS[item.status]}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportQueueList;
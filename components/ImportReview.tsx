@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { HealthMetric, NormalizedMetric } from '../types';
+import { MergeAction, previewParsedMetric } from '../services/metricMerge';
+import { resolveBiomarker } from '../services/biomarkerCatalog';
+import { ArrowRight, X } from 'lucide-react';
+
+interface ImportReviewProps {
+  title: string;
+  rows: NormalizedMetric[];
+  existing: HealthMetric[];
+  replaceSameDay?: boolean;
+  onConfirm: (rows: NormalizedMetric[]) => void;
+  onCancel: () => void;
+}
+
+interface ReviewRow {
+  key: number;
+  metric: NormalizedMetric;
+  accepted: boolean;
+}
+
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<MergeAction, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-50 text-green-700' },
+  update: { label: 'Update', className: 'bg-blue-50 text-blue-700' },
+  replace: { label: 'Replace', className: 'bg-indigo-50 text-indigo-700' },
+  duplicate: { label: 'Duplicate', className: 'bg-gray-100 text-gray-500' },
+  rejected: { label: 'Mismatch', className: 'bg-red-50 text-red-700' },
+};
+
+const ImportReview: React.FC<ImportReviewProps> = ({ title, rows, existing, replaceSameDay, onConfirm, onCancel }) => {
+  const [items, setItems] = useState<ReviewRow[]>(() =>
+    rows.map((metric, key) => {
+      const { action } = previewParsedMetric(existing, metric, { replaceSameDay });
+      return { key, metric, accepted: action !== 'duplicate' && action !== 'rejected' };
+    })
+  );
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const previews = useMemo(
+    () => items.map(item => previewParsedMetric(existing, item.metric, { replaceSameDay })),
+    [items, existing, replaceSameDay]
+  );
+
+  const importable = items.filter((item, i) => item.accepted && previews[i].action !== 'rejected' && Number.isFinite(item.metric.value));
+  const counts = previews.reduce((acc, p) => ({ ...acc, [p.action]: (acc[p.action] || 0) + 1 }), {} as Record<MergeAction, number>);
+
+  const updateRow = (key: number, patch: Partial<NormalizedMetric>) => {
+    setItems(prev => prev.map(item => {
+      if (item.key !== key) return item;
+      const metric = { ...item.metric, ...patch };
+      // A hand-edited row is taken as entered: the conversion no longer applies
+      if ('value' in patch || 'unit' in patch) {
+        metric.originalValue = undefined;
+        metric.originalUnit = undefined;
+        metric.conversionError = undefined;
+      }
+      if ('unit' in patch) metric.ranges = undefined;
+      if ('name' in patch) metric.canonicalId = resolveBiomarker(patch.name || '')?.id;
+      return { ...item, metric };
+    }));
+  };
+
+  const setAccepted = (key: number, accepted: boolean) =>
+    setItems(prev => prev.map(item => item.key === key ? { ...item, accepted } : item));
+
+  const setAllAccepted = (accepted: boolean) =>
+    setItems(prev => prev.map((item, i) => previews[i].action === 'rejected' ? item : { ...item, accepted }));
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="p-6 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Review Import</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {title}. Check the extracted values and untick anything that was misread before it is saved.
+            </p>
+            <div className="flex flex-wrap gap-2 mt-3">
+              {(Object.keys(ACTION_STYLES) as MergeAction[]).filter(a => counts[a]).map(action => (
+                <span key={action} className={`text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase ${ACTION_STYLES[action].className}`}>
+                  {counts[action]} {ACTION_STYLES[action].label}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-full text-gray-500">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-500 font-medium sticky top-0">
+              <tr>
+                <th className="px-4 py-2 w-10">
+                  <input
+                    type="checkbox"
+                    checked={importable.length > 0 && importable.length === items.filter((_, i) => previews[i].action !== 'rejected').length}
+                    onChange={e => setAllAccepted(e.target.checked)}
+                    className="rounded text-teal-600 focus:ring-teal-500"
+                  />
+                </th>
+                <th className="px-4 py-2">Metric</th>
+                <th className="px-4 py-2">Value</th>
+                <th className="px-4 py-2">Unit</th>
+                <th className="px-4 py-2">Date</th>
+                <th className="px-4 py-2">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.slice(0, visibleCount).map((item, i) => {
+                const preview = previews[i];
+                const { metric } = item;
+                const style = ACTION_STYLES[preview.action];
+                return (
+                  <tr key={item.key} className={item.accepted ? '' : 'opacity-50'}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={item.accepted}
+                        disabled={preview.action === 'rejected'}
+                        onChange={e => setAccepted(item.key, e.target.checked)}
+                        className="rounded text-teal-600 focus:ring-teal-500"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        value={metric.name}
+                        onChange={e => updateRow(item.key, { name: e.target.value })}
+                        className="w-full min-w-[140px] px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                      {metric.snippet && (
+                        <div className="text-xs text-gray-400 mt-0.5 truncate max-w-[240px]" title={metric.snippet}>
+                          {metric.page ? `p.${metric.page}: ` : ''}“{metric.snippet}”
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        value={Number.isFinite(metric.value) ? metric.value : ''}
+                        onChange={e => updateRow(item.key, { value: parseFloat(e.target.value) })}
+                        className="w-24 px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                      {metric.originalValue !== undefined && (
+                        <div className="text-xs text-gray-400 mt-0.5">from {metric.originalValue} {metric.originalUnit}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        value={metric.unit}
+                        onChange={e => updateRow(item.key, { unit: e.target.value })}
+                        className="w-24 px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="date"
+                        value={metric.date}
+                        onChange={e => updateRow(item.key, { date: e.target.value })}
+                        className="px-2 py-1 border border-gray-200 rounded focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase ${style.className}`}>
+                        {style.label}
+                      </span>
+                      {preview.matchName && (
+                        <div className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                          <ArrowRight className="h-3 w-3" /> {preview.matchName}
+                        </div>
+                      )}
+                      {preview.reason && <div className="text-xs text-red-600 mt-1">{preview.reason}</div>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {items.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+              className="w-full py-3 text-sm text-teal-600 hover:bg-gray-50 font-medium"
+            >
+              Show {Math.min(PAGE_SIZE, items.length - visibleCount)} more of {items.length - visibleCount} remaining rows
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg font-medium"
+          >
+            Discard
+          </button>
+          <button
+            onClick={() => onConfirm(importable.map(item => item.metric))}
+            disabled={importable.length === 0}
+            className={`px-6 py-2 rounded-lg text-white font-medium transition-all ${
+              importable.length === 0 ? 'bg-gray-300 cursor-not-allowed' : 'bg-teal-600 hover:bg-teal-700 shadow-md'
+            }`}
+          >
+            Import {importable.length} {importable.length === 1 ? 'Row' : 'Rows'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
@@ -1,45 +1,55 @@
 import React from 'react';
 import { HealthMetric } from '../types';
-import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, Calculator, Eye, Check } from 'lucide-react';
+import { RangeSubject } from '../services/referenceRanges';
+import { analyzeTrend, describeTrend } from '../services/trendAnalytics';
 
 interface MetricCardProps {
   metric: HealthMetric;
+  subject?: RangeSubject;
+  selected?: boolean; // set while picking metrics to compare
   onClick: () => void;
 }
 
-const MetricCard: React.FC<MetricCardProps> = ({ metric, onClick }) => {
-  const isAlarming = metric.status === 'High' || metric.status === 'Low';
-  
-  // Determine trend based on last 2 data points if available
+const MetricCard: React.FC<MetricCardProps> = ({ metric, subject, selected, onClick }) => {
+  // Only a statistically clear trend gets an arrow; noise between two readings stays flat
+  const trend = analyzeTrend(metric, 'all', subject);
   let TrendIcon = Minus;
   let trendColor = 'text-gray-400';
-  
-  if (metric.dataPoints.length >= 2) {
-    const current = metric.dataPoints[metric.dataPoints.length - 1].value;
-    const prev = metric.dataPoints[metric.dataPoints.length - 2].value;
-    if (current > prev) {
-      TrendIcon = TrendingUp;
-      trendColor = isAlarming && metric.status === 'High' ? 'text-red-500' : 'text-emerald-500';
-    } else if (current < prev) {
-      TrendIcon = TrendingDown;
-      trendColor = isAlarming && metric.status === 'Low' ? 'text-red-500' : 'text-emerald-500';
-    }
+
+  if (trend && trend.direction !== 'stable') {
+    const rising = trend.direction === 'rising';
+    const worsening = !!trend.projection || (rising ? metric.status === 'High' : metric.status === 'Low');
+    TrendIcon = rising ? TrendingUp : TrendingDown;
+    trendColor = worsening ? 'text-red-500' : 'text-emerald-500';
   }
 
+  const trendTitle = trend
+    ? [describeTrend(trend), trend.projection && `leaves the range around ${trend.projection.date}`].filter(Boolean).join(', ')
+    : 'Not enough readings for a trend';
+
   return (
     <div 
       onClick={onClick}
-      className="bg-white p-5 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow cursor-pointer group"
+      className={`bg-white p-5 rounded-xl border shadow-sm hover:shadow-md transition-shadow cursor-pointer group ${
+        selected ? 'border-teal-500 ring-2 ring-teal-500' : 'border-gray-100'
+      }`}
     >
       <div className="flex justify-between items-start mb-2">
-        <h3 className="text-sm font-medium text-gray-500 group-hover:text-teal-600 transition-colors truncate pr-2">
-          {metric.name}
+        <h3 className="text-sm font-medium text-gray-500 group-hover:text-teal-600 transition-colors truncate pr-2 flex items-center gap-2">
+          {selected !== undefined && (
+            <span className={`h-4 w-4 shrink-0 rounded border flex items-center justify-center ${selected ? 'bg-teal-600 border-teal-600 text-white' : 'border-gray-300'}`}>
+              {selected && <Check size={12} />}
+            </span>
+          )}
+          <span className="truncate">{metric.name}</span>
         </h3>
         <span className={`
           text-[10px] px-2 py-1 rounded-full font-semibold tracking-wide uppercase
           ${metric.status === 'Optimal' || metric.status === 'Normal' ? 'bg-emerald-50 text-emerald-700' : ''}
           ${metric.status === 'High' ? 'bg-red-50 text-red-700' : ''}
           ${metric.status === 'Low' ? 'bg-amber-50 text-amber-700' : ''}
+          ${metric.status === 'Borderline' ? 'bg-yellow-50 text-yellow-700' : ''}
         `}>
           {metric.status}
         </span>
@@ -55,12 +65,22 @@ const MetricCard: React.FC<MetricCardProps> = ({ metric, onClick }) => {
       </div>
 
       <div className="flex items-center justify-between mt-4">
-        <div className="flex items-center gap-1.5">
+        <div className="flex items-center gap-1.5" title={trendTitle}>
             <TrendIcon size={16} className={trendColor} />
             <span className="text-xs text-gray-400">
                 {metric.latestDate}
             </span>
         </div>
+        {metric.watch && (
+          <span className="flex items-center gap-1 text-[10px] text-gray-400 font-medium" title={metric.target ? `Watching, target ${metric.target.text} ${metric.target.unit}` : 'Watching'}>
+            <Eye size={12} /> Watching
+          </span>
+        )}
+        {metric.derived && (
+          <span className="flex items-center gap-1 text-[10px] text-indigo-500 font-medium" title={metric.derived.formula}>
+            <Calculator size={12} /> Calculated
+          </span>
+        )}
       </div>
     </div>
   );
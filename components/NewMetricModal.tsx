@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { MetricCategory } from '../types';
+import { DataPointInput, toDataPointInput } from '../services/metricEditor';
+import { resolveBiomarker } from '../services/biomarkerCatalog';
+import DataPointForm from './DataPointForm';
+import { X } from 'lucide-react';
+
+interface NewMetricModalProps {
+  // Returns an error message to show, or nothing when the metric was created
+  onCreate: (name: string, category: MetricCategory, input: DataPointInput) => string | undefined;
+  onClose: () => void;
+}
+
+const NewMetricModal: React.FC<NewMetricModalProps> = ({ onCreate, onClose }) => {
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<MetricCategory>(MetricCategory.Other);
+  const definition = resolveBiomarker(name);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    // Pre-select the category of a known marker
+    const match = resolveBiomarker(value);
+    if (match) setCategory(match.category);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl p-6 animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">New Metric</h2>
+            <p className="text-sm text-gray-500 mt-1">Track something by hand, like a home blood pressure reading.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+          <label className="text-xs font-medium text-gray-500">
+            Name
+            <input
+              value={name}
+              onChange={e => handleNameChange(e.target.value)}
+              placeholder="e.g. Systolic Blood Pressure"
+              className="w-full mt-1 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            />
+            {definition && definition.name !== name.trim() && (
+              <span className="block mt-1 text-[11px] text-teal-600">Recognized as {definition.name}, usually in {definition.unit}</span>
+            )}
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Category
+            <select
+              value={category}
+              onChange={e => setCategory(e.target.value as MetricCategory)}
+              className="w-full mt-1 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+            >
+              {Object.values(MetricCategory).map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <DataPointForm
+          initial={toDataPointInput()}
+          submitLabel="Create Metric"
+          onSubmit={input => name.trim() ? onCreate(name, category, input) : 'Enter a name for the metric.'}
+          onCancel={onClose}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NewMetricModal;
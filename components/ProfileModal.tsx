@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Profile, UnitSystem } from '../types';
+import { Trash2, X } from 'lucide-react';
+
+export type ProfileFields = Pick<Profile, 'name' | 'sex' | 'birthDate' | 'units'>;
+
+interface ProfileModalProps {
+  profile?: Profile; // undefined while adding a new person
+  onSave: (fields: ProfileFields) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full mt-1 px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onSave, onDelete, onClose }) => {
+  const [fields, setFields] = useState<ProfileFields>({
+    name: profile?.name || '',
+    sex: profile?.sex,
+    birthDate: profile?.birthDate,
+    units: profile?.units || 'conventional'
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fields.name.trim()) {
+      setError('Enter a name.');
+      return;
+    }
+    if (fields.birthDate && new Date(fields.birthDate) > new Date()) {
+      setError('Birth date cannot be in the future.');
+      return;
+    }
+    onSave({ ...fields, name: fields.name.trim(), birthDate: fields.birthDate || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 animate-in zoom-in-95 duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">{profile ? 'Edit Profile' : 'Add Person'}</h2>
+            <p className="text-sm text-gray-500 mt-1">Sex and age choose the matching reference ranges.</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <label className="block text-xs font-medium text-gray-500">
+            Name
+            <input
+              value={fields.name}
+              onChange={e => setFields(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Alex"
+              className={inputClass}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-gray-500">
+              Sex
+              <select
+                value={fields.sex || ''}
+                onChange={e => setFields(prev => ({ ...prev, sex: (e.target.value || undefined) as Profile['sex'] }))}
+                className={inputClass}
+              >
+                <option value="">Not set</option>
+                <option value="female">Female</option>
+                <option value="male">Male</option>
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-500">
+              Birth Date
+              <input
+                type="date"
+                value={fields.birthDate || ''}
+                onChange={e => setFields(prev => ({ ...prev, birthDate: e.target.value }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="block text-xs font-medium text-gray-500">
+            Units for new metrics
+            <select
+              value={fields.units}
+              onChange={e => setFields(prev => ({ ...prev, units: e.target.value as UnitSystem }))}
+              className={inputClass}
+            >
+              <option value="conventional">Conventional (mg/dL, ng/mL)</option>
+              <option value="si">SI (mmol/L, nmol/L)</option>
+            </select>
+          </label>
+        </div>
+
+        {error && <p className="text-xs text-red-600 mt-3">{error}</p>}
+
+        <div className="flex justify-between items-center mt-6">
+          {onDelete ? (
+            <button type="button" onClick={onDelete} className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700">
+              <Trash2 className="h-4 w-4" /> Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg font-medium">
+              Cancel
+            </button>
+            <button type="submit" className="px-6 py-2 rounded-lg text-white font-medium bg-teal-600 hover:bg-teal-700 shadow-md">
+              {profile ? 'Save' : 'Add'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ProfileModal;
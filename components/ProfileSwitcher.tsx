@@ -0,0 +1,62 @@
+import React from 'react';
+import { Profile } from '../types';
+import { describeProfile } from '../services/profiles';
+import { Pencil, UserPlus } from 'lucide-react';
+
+interface ProfileSwitcherProps {
+  profiles: Profile[];
+  activeId?: string;
+  onSwitch: (id: string) => void;
+  onEdit: (profile: Profile) => void;
+  onAdd: () => void;
+}
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeId, onSwitch, onEdit, onAdd }) => {
+  return (
+    <div className="px-2 lg:px-4 py-4 border-t border-gray-100 space-y-1">
+      <div className="hidden lg:block px-3 pb-1 text-[10px] font-semibold tracking-wide uppercase text-gray-400">Profiles</div>
+      {profiles.map(profile => {
+        const isActive = profile.id === activeId;
+        return (
+          <div
+            key={profile.id}
+            className={`group flex items-center rounded-lg transition-colors ${isActive ? 'bg-teal-50' : 'hover:bg-gray-50'}`}
+          >
+            <button
+              onClick={() => onSwitch(profile.id)}
+              title={profile.name}
+              className="flex-1 min-w-0 flex items-center justify-center lg:justify-start px-3 py-2"
+            >
+              <span className={`h-8 w-8 flex-shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${isActive ? 'bg-teal-600 text-white' : 'bg-gray-100 text-gray-600'}`}>
+                {initials(profile.name)}
+              </span>
+              <span className="hidden lg:block ml-3 min-w-0 text-left">
+                <span className={`block text-sm font-medium truncate ${isActive ? 'text-teal-700' : 'text-gray-600'}`}>{profile.name}</span>
+                <span className="block text-[11px] text-gray-400 truncate">{describeProfile(profile) || 'Sex and age not set'}</span>
+              </span>
+            </button>
+            <button
+              onClick={() => onEdit(profile)}
+              title="Edit profile"
+              className="hidden lg:block p-2 mr-1 text-gray-300 hover:text-teal-600 opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={onAdd}
+        className="w-full flex items-center justify-center lg:justify-start px-3 py-2 rounded-lg text-gray-500 hover:bg-gray-50 transition-colors"
+      >
+        <UserPlus className="h-5 w-5" />
+        <span className="hidden lg:block ml-3 text-sm font-medium">Add Person</span>
+      </button>
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowLeft, FileText, Trash2 } from 'lucide-react';
+import { Report, describeReportDates } from '../services/reports';
+
+interface ReportsViewProps {
+  reports: Report[]; // newest first
+  onOpenMetric: (metricId: string) => void;
+  onDelete: (report: Report) => void;
+}
+
+const yearOf = (report: Report) => report.dates[report.dates.length - 1].slice(0, 4);
+
+const ReportsView: React.FC<ReportsViewProps> = ({ reports, onOpenMetric, onDelete }) => {
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const open = reports.find(r => r.key === openKey);
+
+  if (open) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <button onClick={() => setOpenKey(null)} className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1 mb-4">
+          <ArrowLeft className="h-4 w-4" /> All reports
+        </button>
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">{open.name}</h1>
+            <p className="text-slate-500 mt-1">
+              Collected {describeReportDates(open)} · {open.results.length} results
+              {open.importedAt && ` · imported ${open.importedAt.split('T')[0]}`}
+            </p>
+          </div>
+          <button
+            onClick={() => onDelete(open)}
+            className="text-red-600 bg-red-50 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 shrink-0"
+          >
+            <Trash2 className="h-4 w-4" /> Delete Report
+          </button>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-500 font-medium border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-2">Metric</th>
+                <th className="px-4 py-2">Value</th>
+                <th className="px-4 py-2">Reference Range</th>
+                {open.dates.length > 1 && <th className="px-4 py-2">Date</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {open.results.map(({ metric, point }, i) => (
+                <tr key={`${metric.id}-${i}`} className="hover:bg-gray-50">
+                  <td className="px-4 py-2">
+                    <button onClick={() => onOpenMetric(metric.id)} className="text-gray-900 hover:text-teal-600 hover:underline text-left">
+                      {metric.name}
+                    </button>
+                    <div className="text-xs text-gray-400">{metric.category}</div>
+                  </td>
+                  <td className={`px-4 py-2 font-medium ${point.isOutOfRange ? 'text-red-600' : 'text-gray-900'}`}>
+                    {point.value} {point.unit}
+                    {point.isOutOfRange && <AlertCircle className="inline-block ml-2 h-3 w-3" />}
+                  </td>
+                  <td className="px-4 py-2 text-gray-500">{point.referenceRange || '—'}</td>
+                  {open.dates.length > 1 && <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{point.date}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  const years = Array.from(new Set(reports.map(yearOf)));
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-900">Reports</h1>
+        <p className="text-slate-500 mt-1">Every imported report with the results that came from it, newest first.</p>
+      </div>
+
+      {reports.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-xl border border-dashed border-gray-300 text-gray-500">
+          No imported reports yet. Manually entered readings are not listed here.
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {years.map(year => (
+            <div key={year}>
+              <div className="flex items-center gap-4 mb-4">
+                <h3 className="text-lg font-bold text-gray-800">{year}</h3>
+                <div className="h-px flex-1 bg-gray-200"></div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {reports.filter(r => yearOf(r) === year).map(report => (
+                  <button
+                    key={report.key}
+                    onClick={() => setOpenKey(report.key)}
+                    className="bg-white p-5 rounded-xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow text-left"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="h-9 w-9 rounded-lg bg-teal-50 text-teal-600 flex items-center justify-center shrink-0">
+                        <FileText className="h-5 w-5" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate" title={report.name}>{report.name}</div>
+                        <div className="text-xs text-gray-500 mt-0.5">{describeReportDates(report)}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between mt-4 text-xs">
+                      <span className="text-gray-500">{report.results.length} results</span>
+                      {report.outOfRange > 0 ? (
+                        <span className="px-2 py-1 rounded-full bg-red-50 text-red-700 font-semibold">{report.outOfRange} out of range</span>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full bg-emerald-50 text-emerald-700 font-semibold">All in range</span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportsView;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+import { MetricValue, SourceDocument } from '../types';
+import { formatFileSize, getDocumentPreview, locateSnippet, pdfPageUrl } from '../services/documentVault';
+
+interface SourceDocumentViewerProps {
+  point: MetricValue;
+  document?: SourceDocument;
+  file?: Blob; // undefined when the original was not kept
+  onClose: () => void;
+}
+
+const SourceDocumentViewer: React.FC<SourceDocumentViewerProps> = ({ point, document, file, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const matchRef = useRef<HTMLElement>(null);
+  const preview = file ? getDocumentPreview(document?.mimeType || file.type) : 'none';
+  const located = text !== null ? locateSnippet(text, point.snippet) : null;
+
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    if (preview === 'text') file.text().then(setText);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  useEffect(() => {
+    matchRef.current?.scrollIntoView({ block: 'center' });
+  }, [located?.match]);
+
+  const renderPreview = () => {
+    if (!file) {
+      return (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500 p-8 text-center">
+          The original file was not kept for this import. Documents imported from now on are stored with their results.
+        </div>
+      );
+    }
+    if (!url) return <div className="flex-1" />;
+    if (preview === 'pdf') return <iframe src={pdfPageUrl(url, point.page)} title={document?.name} className="flex-1 w-full border-0" />;
+    if (preview === 'image') return <div className="flex-1 overflow-auto p-4"><img src={url} alt={document?.name} className="max-w-full mx-auto" /></div>;
+    if (preview === 'text') {
+      return (
+        <pre className="flex-1 overflow-auto p-4 text-xs text-gray-700 whitespace-pre-wrap font-mono">
+          {located ? (
+            <>
+              {located.before}
+              <mark ref={matchRef} className="bg-yellow-200 rounded px-0.5">{located.match}</mark>
+              {located.after}
+            </>
+          ) : text}
+        </pre>
+      );
+    }
+    return (
+      <div className="flex-1 flex items-center justify-center text-sm text-gray-500 p-8">
+        This file type cannot be previewed. Download it to open it.
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <h2 className="font-bold text-gray-900 flex items-center gap-2 truncate">
+              <FileText className="h-4 w-4 text-teal-600 shrink-0" /> {document?.name || point.sourceDoc || 'Source document'}
+            </h2>
+            <div className="text-xs text-gray-500 mt-1">
+              {[
+                document?.importedAt && `Imported ${document.importedAt.split('T')[0]}`,
+                document?.size !== undefined && formatFileSize(document.size),
+                point.page && `Page ${point.page}`
+              ].filter(Boolean).join(' · ')}
+            </div>
+            {document?.hash && <div className="text-[10px] text-gray-400 font-mono truncate" title="SHA-256">{document.hash}</div>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {url && (
+              <a href={url} download={document?.name} className="p-2 text-gray-400 hover:text-teal-600 hover:bg-gray-50 rounded-lg" title="Download original">
+                <Download className="h-4 w-4" />
+              </a>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 py-3 bg-gray-50 border-b border-gray-100 text-sm">
+          <span className="text-gray-500">Extracted </span>
+          <span className="font-medium text-gray-900">{point.originalValue ?? point.value} {point.originalUnit ?? point.unit}</span>
+          <span className="text-gray-500"> for {point.date}</span>
+          {point.snippet ? (
+            <div className="text-xs text-gray-600 mt-1 font-mono">
+              from “{point.snippet}”
+              {preview === 'text' && text !== null && !located && <span className="ml-2 font-sans text-amber-700">Not found in the document.</span>}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-400 mt-1">No source text was recorded for this value.</div>
+          )}
+        </div>
+
+        {renderPreview()}
+      </div>
+    </div>
+  );
+};
+
+export default SourceDocumentViewer;
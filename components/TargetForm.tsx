@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Eye } from 'lucide-react';
+import { HealthMetric } from '../types';
+
+export interface TargetInput {
+  target: string;
+  watched: boolean;
+  changePercent: string;
+}
+
+interface TargetFormProps {
+  metric: HealthMetric;
+  // Returns an error message to show, or nothing when the settings were saved
+  onSubmit: (input: TargetInput) => string | undefined;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const toInput = (metric: HealthMetric): TargetInput => ({
+  target: metric.target?.text || '',
+  watched: !!metric.watch,
+  changePercent: metric.watch?.changePercent?.toString() || ''
+});
+
+const TargetForm: React.FC<TargetFormProps> = ({ metric, onSubmit }) => {
+  const [input, setInput] = useState<TargetInput>(() => toInput(metric));
+  const [error, setError] = useState<string | null>(null);
+
+  const saved = toInput(metric);
+  const isDirty = input.target !== saved.target || input.watched !== saved.watched || input.changePercent !== saved.changePercent;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(onSubmit(input) || null);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-slate-50 border border-gray-200 rounded-xl p-4 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-xs font-medium text-gray-500">
+          Personal Target ({metric.target?.unit || metric.latestUnit})
+          <input
+            value={input.target}
+            onChange={e => setInput(prev => ({ ...prev, target: e.target.value }))}
+            placeholder="e.g. <80 or 50-80"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+        <label className="text-xs font-medium text-gray-500">
+          Alert when a new result changes by more than (%)
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={input.changePercent}
+            onChange={e => setInput(prev => ({ ...prev, changePercent: e.target.value, watched: prev.watched || !!e.target.value }))}
+            placeholder="Optional, e.g. 15"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-400">
+        A target replaces the lab's optimal range when deciding Optimal or Borderline. Leave it empty to use the lab's range.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={input.watched}
+            onChange={e => setInput(prev => ({ ...prev, watched: e.target.checked }))}
+            className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+          />
+          <Eye className="h-4 w-4 text-gray-400" /> Watch: alert me when an import crosses the target
+        </label>
+        <button
+          type="submit"
+          disabled={!isDirty}
+          className="px-4 py-2 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white rounded-lg text-sm font-medium"
+        >
+          Save
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TargetForm;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Download, Printer, Sparkles, X } from 'lucide-react';
+import { HealthMetric, Profile } from '../types';
+import { RangeSubject } from '../services/referenceRanges';
+import { describeAiError } from '../services/aiProvider';
+import { buildVisitSummary, downloadVisitSummary, printVisitSummary, renderVisitSummaryHtml } from '../services/visitSummary';
+
+interface VisitSummaryModalProps {
+  metrics: HealthMetric[];
+  categories: string[];
+  profile?: Profile;
+  subject?: RangeSubject;
+  // Asks the advisor for an overview of the given metrics
+  onWriteOverview: (metrics: HealthMetric[]) => Promise<string>;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent';
+
+const VisitSummaryModal: React.FC<VisitSummaryModalProps> = ({ metrics, categories, profile, subject, onWriteOverview, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(categories);
+  const [notes, setNotes] = useState('');
+  const [overview, setOverview] = useState('');
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const included = metrics.filter(m => selected.includes(m.category));
+
+  const toggleCategory = (category: string) =>
+    setSelected(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+
+  const handleWriteOverview = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      setOverview(await onWriteOverview(included));
+    } catch (err) {
+      console.error(err);
+      setError(describeAiError(err));
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const render = () =>
+    renderVisitSummaryHtml(buildVisitSummary(included, selected, subject), { profile, notes, aiSummary: overview.trim() || undefined });
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 animate-in zoom-in-95 duration-200" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Visit Summary</h2>
+            <p className="text-sm text-gray-500 mt-1">A printable page for your appointment, with out-of-range results first.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-2">Categories</div>
+            <div className="flex flex-wrap gap-2">
+              {categories.map(category => (
+                <label key={category} className="flex items-center gap-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg px-3 py-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(category)}
+                    onChange={() => toggleCategory(category)}
+                    className="rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{included.length} metrics included.</p>
+          </div>
+
+          <label className="block text-xs font-medium text-gray-500">
+            Notes for this visit
+            <textarea
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              rows={3}
+              placeholder="Symptoms, medication changes, questions to ask..."
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-500">AI-written overview (optional)</span>
+              <button
+                onClick={handleWriteOverview}
+                disabled={isWriting || included.length === 0}
+                className="text-teal-600 text-sm font-medium hover:underline disabled:text-gray-400 disabled:no-underline flex items-center gap-1"
+              >
+                {isWriting ? <div className="animate-spin h-4 w-4 border-2 border-teal-600 border-t-transparent rounded-full"></div> : <Sparkles className="h-4 w-4" />}
+                {overview ? 'Rewrite' : 'Write with AI'}
+              </button>
+            </div>
+            <textarea
+              value={overview}
+              onChange={e => setOverview(e.target.value)}
+              rows={overview ? 6 : 2}
+              placeholder="Leave empty to skip. You can edit the text before exporting."
+              className={`${inputClass} mt-1`}
+            />
+            {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={() => downloadVisitSummary(render())}
+            disabled={included.length === 0}
+            className="px-4 py-2 border border-gray-200 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg text-sm font-medium flex items-center gap-2"
+          >
+            <Download className="h-4 w-4" /> Download HTML
+          </button>
+          <button
+            onClick={() => printVisitSummary(render())}
+            disabled={included.length === 0}
+            className="px-4 py-2 bg-teal-600 hover:bg-teal-700 disabled:bg-gray-300 text-white rounded-lg text-sm font-medium flex items-center gap-2"
+          >
+            <Printer className="h-4 w-4" /> Print / Save as PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisitSummaryModal;
@@ -0,0 +1,144 @@
+import { HealthMetric, MetricValue } from "../types";
+import { AiTool } from "./aiProvider";
+import { resolveBiomarker } from "./biomarkerCatalog";
+import { RangeSubject, getPointStatus, isOutOfRangeStatus } from "./referenceRanges";
+
+// Tools the advisor can call to read the stored data. They run in the browser against the
+// metrics passed in, so answers can quote real values instead of the one-line summary.
+
+const MAX_POINTS = 200;
+
+// Exact name first, then the biomarker catalog, then a partial name match
+export const findMetricByName = (metrics: HealthMetric[], name: string): HealthMetric | undefined => {
+  const query = (name || '').trim().toLowerCase();
+  if (!query) return undefined;
+
+  const exact = metrics.find(m => m.name.toLowerCase() === query);
+  if (exact) return exact;
+
+  const definition = resolveBiomarker(query);
+  const byCatalog = definition && metrics.find(m => m.canonicalId === definition.id);
+  if (byCatalog) return byCatalog;
+
+  return metrics.find(m => m.name.toLowerCase().includes(query) || query.includes(m.name.toLowerCase()));
+};
+
+const notFound = (name: string) => ({
+  error: `No metric matches "${name}". Call searchMetrics to see what is tracked.`
+});
+
+const describePoint = (dp: MetricValue, metric: HealthMetric, subject?: RangeSubject) => ({
+  date: dp.date,
+  value: dp.value,
+  unit: dp.unit,
+  status: getPointStatus(dp, subject, metric),
+  referenceRange: dp.referenceRange || undefined,
+  source: dp.sourceDoc,
+  note: dp.note
+});
+
+const inDateRange = (dp: MetricValue, from?: string, to?: string) =>
+  (!from || dp.date >= from) && (!to || dp.date <= to);
+
+// The last reading on or before the date, else the first one after it
+const closestPoint = (metric: HealthMetric, date: string) =>
+  [...metric.dataPoints].reverse().find(dp => dp.date <= date) || metric.dataPoints.find(dp => dp.date > date);
+
+export const createAdvisorTools = (metrics: HealthMetric[], subject?: RangeSubject): AiTool[] => [
+  {
+    name: 'searchMetrics',
+    description: 'Lists tracked metrics with their latest value. Filter by part of a name or by category; leave both empty to list everything.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Part of a metric name, e.g. "cholesterol"' },
+        category: { type: 'string', description: 'Blood, Urine, Hormones, Vitamins, Activity, Body or Other' }
+      }
+    },
+    run: ({ query, category }) => ({
+      metrics: metrics
+        .filter(m => !query || findMetricByName([m], String(query)))
+        .filter(m => !category || m.category.toLowerCase() === String(category).toLowerCase())
+        .map(m => ({
+          name: m.name,
+          category: m.category,
+          latestValue: m.latestValue,
+          unit: m.latestUnit,
+          latestDate: m.latestDate,
+          status: m.status,
+          readings: m.dataPoints.length,
+          firstDate: m.dataPoints[0]?.date,
+          calculatedFrom: m.derived?.formula,
+          personalTarget: m.target && `${m.target.text} ${m.target.unit}`
+        }))
+    })
+  },
+  {
+    name: 'getMetricHistory',
+    description: 'Returns every reading of one metric, oldest first, optionally limited to a date range.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Metric name, e.g. "LDL Cholesterol"' },
+        from: { type: 'string', description: 'Earliest date to include, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Latest date to include, YYYY-MM-DD' }
+      },
+      required: ['name']
+    },
+    run: ({ name, from, to }) => {
+      const metric = findMetricByName(metrics, name);
+      if (!metric) return notFound(name);
+      const points = metric.dataPoints.filter(dp => inDateRange(dp, from, to));
+      return {
+        name: metric.name,
+        unit: metric.latestUnit,
+        readings: points.slice(-MAX_POINTS).map(dp => describePoint(dp, metric, subject)),
+        omitted: Math.max(0, points.length - MAX_POINTS)
+      };
+    }
+  },
+  {
+    name: 'compareDates',
+    description: 'Compares one metric at two dates, using the closest reading to each date, and returns the change.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Metric name' },
+        from: { type: 'string', description: 'Earlier date, YYYY-MM-DD' },
+        to: { type: 'string', description: 'Later date, YYYY-MM-DD; defaults to the latest reading' }
+      },
+      required: ['name', 'from']
+    },
+    run: ({ name, from, to }) => {
+      const metric = findMetricByName(metrics, name);
+      if (!metric) return notFound(name);
+      const before = closestPoint(metric, from);
+      const after = to ? closestPoint(metric, to) : metric.dataPoints[metric.dataPoints.length - 1];
+      if (!before || !after) return { error: `${metric.name} has no readings.` };
+      if (before.unit !== after.unit) return { error: `The readings are in different units (${before.unit}, ${after.unit}).` };
+
+      const change = after.value - before.value;
+      return {
+        name: metric.name,
+        from: describePoint(before, metric, subject),
+        to: describePoint(after, metric, subject),
+        change: Math.round(change * 1000) / 1000,
+        percentChange: before.value !== 0 ? Math.round((change / before.value) * 1000) / 10 : undefined
+      };
+    }
+  },
+  {
+    name: 'getOutOfRange',
+    description: 'Lists metrics whose latest reading is outside the reference range, plus any earlier out-of-range readings of them.',
+    parameters: { type: 'object', properties: {} },
+    run: () => ({
+      metrics: metrics
+        .filter(m => isOutOfRangeStatus(m.status))
+        .map(m => ({
+          name: m.name,
+          latest: describePoint(m.dataPoints[m.dataPoints.length - 1], m, subject),
+          earlierOutOfRange: m.dataPoints.slice(0, -1).filter(dp => dp.isOutOfRange).map(dp => ({ date: dp.date, value: dp.value }))
+        }))
+    })
+  }
+];
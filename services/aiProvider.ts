@@ -0,0 +1,169 @@
+import { settingsRepository } from "./storage";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+
+// Backend-agnostic access to the language model. Prompts live with the features that use them;
+// providers only know how to return JSON for a schema and how to hold a chat.
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Each task can run on its own model, e.g. a small local model for matching
+export type AiTask = 'extraction' | 'matching' | 'chat';
+
+// The subset of JSON Schema the prompts and tools use; understood by Gemini and OpenAI-style servers alike
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+// Binary input such as a PDF or photo, base64 encoded
+export interface AiAttachment {
+  mimeType: string;
+  data: string;
+}
+
+export interface JsonRequest {
+  task: AiTask;
+  model: string;
+  prompt: string;
+  input?: string | AiAttachment;
+  schema: JsonSchema;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// A function the model may call during a chat. It runs locally; only its result is sent back.
+export interface AiTool {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+  run: (args: Record<string, any>) => unknown;
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  model: string;
+  systemInstruction: string;
+  history: ChatTurn[];
+  message: string;
+  tools?: AiTool[];
+  onText?: (text: string) => void; // called with the answer so far as it streams in
+  signal?: AbortSignal;
+}
+
+export interface ChatReply {
+  text: string;
+  toolCalls: ToolCall[]; // in the order they were made
+}
+
+export interface AiProvider {
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+  chat: (request: ChatRequest) => Promise<ChatReply>;
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  models: Record<AiTask, string>;
+  baseUrl?: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string; // optional bearer token for that server
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible server',
+  mock: 'Offline mock',
+};
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+  extraction: 'Lab report extraction',
+  matching: 'Metric matching',
+  chat: 'Advisor chat',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, Record<AiTask, string>> = {
+  gemini: { extraction: 'gemini-2.5-flash', matching: 'gemini-2.5-flash', chat: 'gemini-3-pro-preview' },
+  'openai-compatible': { extraction: 'llama3.1', matching: 'llama3.1', chat: 'llama3.1' },
+  mock: { extraction: 'fixtures', matching: 'fixtures', chat: 'fixtures' },
+};
+
+export const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+export const AI_SETTINGS_KEY = 'ai';
+
+let settings: AiSettings = { provider: 'gemini', models: DEFAULT_MODELS.gemini };
+
+export const getAiSettings = () => settings;
+
+export const loadAiSettings = async (): Promise<AiSettings> => {
+  const saved = await settingsRepository.get<Partial<AiSettings>>(AI_SETTINGS_KEY);
+  if (saved?.provider && DEFAULT_MODELS[saved.provider]) {
+    settings = { ...saved, provider: saved.provider, models: { ...DEFAULT_MODELS[saved.provider], ...saved.models } };
+  }
+  return settings;
+};
+
+export const saveAiSettings = async (next: AiSettings) => {
+  await settingsRepository.set(AI_SETTINGS_KEY, next);
+  settings = next;
+};
+
+const createProvider = (config: AiSettings): AiProvider => {
+  switch (config.provider) {
+    case 'gemini': return createGeminiProvider(process.env.API_KEY);
+    case 'openai-compatible': return createOpenAiCompatibleProvider(config.baseUrl || DEFAULT_BASE_URL, config.apiKey);
+    case 'mock': return createMockProvider();
+  }
+};
+
+// The provider and model configured for one task
+export const getTaskModel = (task: AiTask): { provider: AiProvider; model: string } => ({
+  provider: createProvider(settings),
+  model: settings.models[task] || DEFAULT_MODELS[settings.provider][task],
+});
+
+// Stops a model that keeps calling tools instead of answering
+export const MAX_TOOL_ROUNDS = 5;
+
+// Runs a tool call from the model; failures are reported back to it rather than thrown
+export const runTool = (tools: AiTool[], call: ToolCall): unknown => {
+  const tool = tools.find(t => t.name === call.name);
+  if (!tool) return { error: `Unknown tool ${call.name}` };
+  try {
+    return tool.run(call.args || {});
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+// A message fit to show next to a failed answer
+export const describeAiError = (error: unknown) => {
+  if (error instanceof TypeError) return 'Could not reach the AI provider. Check your connection or the server URL in Settings.';
+  const message = error instanceof Error ? error.message : String(error);
+  // Gemini errors carry the API's JSON body
+  try {
+    return JSON.parse(message.slice(message.indexOf('{'))).error?.message || message;
+  } catch {
+    return message || 'The AI provider returned an error.';
+  }
+};
+
+// Local models often wrap JSON in a Markdown code fence
+export const parseJsonText = <T>(text: string): T => {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  return JSON.parse(fenced ? fenced[1] : text) as T;
+};
@@ -0,0 +1,169 @@
+import { GeneticResult, HealthMetric, Profile, SourceDocument } from "../types";
+import { MergeSummary, emptyMergeSummary, mergeMetricSets } from "./metricMerge";
+import { recalculateMetric } from "./referenceRanges";
+import { AI_SETTINGS_KEY, AiSettings } from "./aiProvider";
+import { ACTIVE_PROFILE_KEY, SCHEMA_VERSION, createId, documentFilesRepository, documentsRepository, geneticResultsRepository, metricsRepository, settingsRepository } from "./storage";
+
+// Versioned JSON backups of everything needed to move the dashboard to another browser.
+// A backup holds the active profile's data; restoring writes into whichever profile is active.
+
+const BACKUP_FORMAT = 'holistic-health-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // storage schema the data was exported from
+  exportedAt: string;
+  profile?: Profile; // who the data belongs to, for reference only
+  metrics: HealthMetric[];
+  documents: SourceDocument[];
+  geneticResults: GeneticResult[];
+  settings: Record<string, unknown>;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// Backups are plain JSON files, so the AI server's API key stays in this browser
+const withoutSecrets = (settings: Record<string, unknown>) => {
+  const ai = settings[AI_SETTINGS_KEY] as AiSettings | undefined;
+  if (!ai?.apiKey) return settings;
+  const { apiKey: _apiKey, ...rest } = ai;
+  return { ...settings, [AI_SETTINGS_KEY]: rest };
+};
+
+export const createBackup = async (profile?: Profile): Promise<BackupArchive> => {
+  const [metrics, documents, geneticResults, settings] = await Promise.all([
+    metricsRepository.list(),
+    documentsRepository.list(),
+    geneticResultsRepository.list(),
+    settingsRepository.getAll()
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    metrics,
+    documents,
+    geneticResults,
+    // Which profile is active is a property of this browser, not of the data
+    settings: withoutSecrets(Object.fromEntries(Object.entries(settings).filter(([key]) => key !== ACTIVE_PROFILE_KEY)))
+  };
+};
+
+export const downloadBackup = (archive: BackupArchive) => {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `holistic-health-backup-${archive.exportedAt.split('T')[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const parseBackup = (text: string): BackupArchive => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  if (data?.format !== BACKUP_FORMAT) {
+    throw new Error("The selected file is not a Holistic Health backup.");
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the app.");
+  }
+  if (!Array.isArray(data.metrics)) {
+    throw new Error("The backup does not contain any metrics.");
+  }
+
+  return {
+    ...data,
+    documents: Array.isArray(data.documents) ? data.documents : [],
+    geneticResults: Array.isArray(data.geneticResults) ? data.geneticResults : [],
+    settings: data.settings && typeof data.settings === 'object' ? data.settings : {}
+  };
+};
+
+// A backup keeps the IDs it was made with, and data point keys are built from metric IDs. Restored
+// into another profile of the same browser, those IDs would overwrite the original profile's
+// records, so every metric and document gets a new one. Documents that already exist locally
+// (same name and import time) are reused instead of copied.
+const withFreshIds = (archive: BackupArchive, localDocuments: SourceDocument[]) => {
+  const documentIds = new Map<string, string>();
+  const documents: SourceDocument[] = [];
+  archive.documents.forEach(doc => {
+    const local = localDocuments.find(d => d.name === doc.name && d.importedAt === doc.importedAt);
+    const id = local ? local.id : createId();
+    documentIds.set(doc.id, id);
+    if (!local) documents.push({ ...doc, id });
+  });
+  const remap = (documentId?: string) => documentId && documentIds.get(documentId);
+
+  return {
+    documents,
+    metrics: archive.metrics.map(m => ({
+      ...m,
+      id: createId(),
+      dataPoints: m.dataPoints.map(dp => ({ ...dp, documentId: remap(dp.documentId) }))
+    })),
+    geneticResults: archive.geneticResults.map(r => ({ ...r, documentId: remap(r.documentId) }))
+  };
+};
+
+// Writes the archive to storage and returns the resulting metric set
+export const restoreBackup = async (
+  archive: BackupArchive,
+  mode: RestoreMode,
+  currentMetrics: HealthMetric[]
+): Promise<{ metrics: HealthMetric[]; geneticResults: GeneticResult[]; summary: MergeSummary }> => {
+  const activeProfileId = await settingsRepository.get(ACTIVE_PROFILE_KEY);
+  const settings = { ...archive.settings, [ACTIVE_PROFILE_KEY]: activeProfileId };
+  // Backups carry no API key; keep this browser's for the same server
+  const localAi = await settingsRepository.get<AiSettings>(AI_SETTINGS_KEY);
+  const restoredAi = settings[AI_SETTINGS_KEY] as AiSettings | undefined;
+  if (localAi?.apiKey && restoredAi && !restoredAi.apiKey && restoredAi.baseUrl === localAi.baseUrl) {
+    settings[AI_SETTINGS_KEY] = { ...restoredAi, apiKey: localAi.apiKey };
+  }
+
+  if (mode === 'replace') {
+    const restored = withFreshIds(archive, []);
+    const metrics = restored.metrics.map(m => recalculateMetric(m));
+    await Promise.all([metricsRepository.clear(), documentsRepository.clear(), documentFilesRepository.clear(), geneticResultsRepository.clear()]);
+    await Promise.all([
+      metricsRepository.saveAll(metrics),
+      documentsRepository.saveAll(restored.documents),
+      geneticResultsRepository.saveAll(restored.geneticResults),
+      settingsRepository.replaceAll(settings)
+    ]);
+    return {
+      metrics,
+      geneticResults: restored.geneticResults,
+      summary: { ...emptyMergeSummary(), added: [...metrics, ...restored.geneticResults].map(r => r.name) }
+    };
+  }
+
+  const restored = withFreshIds(archive, await documentsRepository.list());
+  const { metrics, changed, summary } = mergeMetricSets(currentMetrics, restored.metrics);
+
+  // Keep local settings; only fill in keys this browser does not have yet
+  const localSettings = await settingsRepository.getAll();
+  // Genotypes do not change, so a local call always wins
+  const localGenetics = await geneticResultsRepository.list();
+  const newGenetics = restored.geneticResults.filter(r => !localGenetics.some(l => l.id === r.id));
+  summary.added.push(...newGenetics.map(r => r.name));
+
+  await Promise.all([
+    metricsRepository.saveAll(changed),
+    documentsRepository.saveAll(restored.documents),
+    geneticResultsRepository.saveAll(newGenetics),
+    settingsRepository.replaceAll({ ...settings, ...localSettings })
+  ]);
+
+  return { metrics, geneticResults: [...localGenetics, ...newGenetics], summary };
+};
@@ -0,0 +1,185 @@
+import { MetricCategory, UnitSystem } from "../types";
+
+// Bundled biomarker catalog. IDs are LOINC codes where one exists, otherwise a "local:" slug.
+// Incoming names are resolved here before any AI matching is attempted.
+
+export interface BiomarkerDefinition {
+  id: string;
+  name: string;
+  aliases: string[];
+  unit: string; // default unit new metrics are stored in
+  category: MetricCategory;
+  description: string;
+  analyte?: string; // key into the unit conversion registry
+  siUnit?: string; // used instead of `unit` for profiles that prefer SI units
+}
+
+export const BIOMARKERS: BiomarkerDefinition[] = [
+  // Metabolic
+  { id: '2345-7', name: 'Glucose', aliases: ['fasting glucose', 'blood glucose', 'glucose fasting', 'fbg', 'fpg'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'glucose', siUnit: 'mmol/L',
+    description: 'Blood sugar level at the time of the draw. Fasting values reflect how well the body regulates glucose between meals.' },
+  { id: '4548-4', name: 'Hemoglobin A1c', aliases: ['hba1c', 'a1c', 'glycated hemoglobin', 'glycohemoglobin', 'hgba1c'], unit: '%', category: MetricCategory.Blood, analyte: 'hba1c', siUnit: 'mmol/mol',
+    description: 'Percentage of hemoglobin with glucose attached, reflecting average blood sugar over the past two to three months.' },
+  { id: '20448-7', name: 'Insulin', aliases: ['fasting insulin', 'insulin fasting'], unit: 'uIU/mL', category: MetricCategory.Hormones, analyte: 'insulin', siUnit: 'pmol/L',
+    description: 'Hormone that moves glucose into cells. Elevated fasting insulin is an early sign of insulin resistance.' },
+
+  // Lipids
+  { id: '2093-3', name: 'Total Cholesterol', aliases: ['cholesterol', 'chol'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'total-cholesterol', siUnit: 'mmol/L',
+    description: 'Sum of cholesterol carried in all lipoprotein particles.' },
+  { id: '13457-7', name: 'LDL Cholesterol', aliases: ['ldl', 'ldl c', 'ldl chol', 'ldl direct', 'low density lipoprotein'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'ldl', siUnit: 'mmol/L',
+    description: 'Cholesterol carried in low-density lipoproteins, a primary driver of atherosclerotic plaque.' },
+  { id: '2085-9', name: 'HDL Cholesterol', aliases: ['hdl', 'hdl c', 'hdl chol', 'high density lipoprotein'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'hdl', siUnit: 'mmol/L',
+    description: 'Cholesterol carried in high-density lipoproteins, which return cholesterol to the liver.' },
+  { id: '2571-8', name: 'Triglycerides', aliases: ['triglyceride', 'tg', 'trig'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'triglycerides', siUnit: 'mmol/L',
+    description: 'Circulating fat used for energy. High levels are linked to insulin resistance and excess carbohydrate or alcohol intake.' },
+  { id: '1884-6', name: 'Apolipoprotein B', aliases: ['apob', 'apo b', 'apolipoprotein b100'], unit: 'mg/dL', category: MetricCategory.Blood,
+    description: 'Counts atherogenic lipoprotein particles, one ApoB per particle. Often a better cardiovascular risk marker than LDL cholesterol.' },
+  { id: '10835-7', name: 'Lipoprotein(a)', aliases: ['lp a', 'lpa', 'lipoprotein a'], unit: 'nmol/L', category: MetricCategory.Blood,
+    description: 'Genetically determined lipoprotein that raises cardiovascular risk independently of LDL.' },
+
+  // Inflammation
+  { id: '30522-7', name: 'hs-CRP', aliases: ['crp hs', 'hs crp', 'high sensitivity crp', 'c reactive protein cardiac', 'c reactive protein high sensitivity', 'hscrp'], unit: 'mg/L', category: MetricCategory.Blood,
+    description: 'Sensitive marker of systemic inflammation and cardiovascular risk.' },
+  { id: '13965-9', name: 'Homocysteine', aliases: ['hcy'], unit: 'umol/L', category: MetricCategory.Blood, analyte: 'homocysteine',
+    description: 'Amino acid that accumulates when B12, folate or B6 status is poor. Elevated levels are associated with vascular risk.' },
+
+  // Vitamins and minerals
+  { id: '62292-8', name: 'Vitamin D, 25-OH', aliases: ['vitamin d', '25 oh vitamin d', '25 hydroxyvitamin d', 'vitamin d 25 hydroxy', 'vitamin d3', 'calcidiol', 'vit d'], unit: 'ng/mL', category: MetricCategory.Vitamins, analyte: 'vitamin-d', siUnit: 'nmol/L',
+    description: 'Main circulating form of vitamin D and the best indicator of vitamin D status.' },
+  { id: '2132-9', name: 'Vitamin B12', aliases: ['b12', 'cobalamin', 'vit b12'], unit: 'pg/mL', category: MetricCategory.Vitamins, analyte: 'vitamin-b12', siUnit: 'pmol/L',
+    description: 'Vitamin needed for nerve function and red blood cell formation.' },
+  { id: '2284-8', name: 'Folate', aliases: ['folic acid', 'vitamin b9'], unit: 'ng/mL', category: MetricCategory.Vitamins, analyte: 'folate', siUnit: 'nmol/L',
+    description: 'B vitamin required for DNA synthesis and homocysteine metabolism.' },
+  { id: '2276-4', name: 'Ferritin', aliases: [], unit: 'ng/mL', category: MetricCategory.Blood, analyte: 'ferritin', siUnit: 'ug/L',
+    description: 'Iron storage protein. Low values indicate depleted iron stores; high values can reflect iron overload or inflammation.' },
+  { id: '2498-4', name: 'Iron', aliases: ['serum iron', 'fe'], unit: 'ug/dL', category: MetricCategory.Blood, analyte: 'iron', siUnit: 'umol/L',
+    description: 'Iron currently circulating in the blood bound to transferrin.' },
+  { id: '19123-9', name: 'Magnesium', aliases: ['mg'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'magnesium', siUnit: 'mmol/L',
+    description: 'Mineral involved in hundreds of enzymatic reactions, including muscle and nerve function.' },
+  { id: '17861-6', name: 'Calcium', aliases: ['ca'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'calcium', siUnit: 'mmol/L',
+    description: 'Mineral essential for bone, muscle contraction and nerve signalling.' },
+
+  // Hormones
+  { id: '2986-8', name: 'Testosterone, Total', aliases: ['testosterone', 'total testosterone', 'testosterone total ms'], unit: 'ng/dL', category: MetricCategory.Hormones, analyte: 'testosterone', siUnit: 'nmol/L',
+    description: 'Primary androgen, affecting muscle mass, libido, mood and energy.' },
+  { id: '2991-8', name: 'Testosterone, Free', aliases: ['free testosterone', 'testosterone free'], unit: 'pg/mL', category: MetricCategory.Hormones, analyte: 'testosterone', siUnit: 'pmol/L',
+    description: 'Fraction of testosterone not bound to proteins and available to tissues.' },
+  { id: '13967-5', name: 'SHBG', aliases: ['sex hormone binding globulin'], unit: 'nmol/L', category: MetricCategory.Hormones,
+    description: 'Protein that binds sex hormones and controls how much is biologically available.' },
+  { id: '2243-4', name: 'Estradiol', aliases: ['e2', 'oestradiol'], unit: 'pg/mL', category: MetricCategory.Hormones, analyte: 'estradiol', siUnit: 'pmol/L',
+    description: 'Most potent estrogen, important for bone, cardiovascular and reproductive health in all sexes.' },
+  { id: '2191-5', name: 'DHEA-Sulfate', aliases: ['dhea s', 'dheas', 'dhea sulfate'], unit: 'ug/dL', category: MetricCategory.Hormones, analyte: 'dhea-s', siUnit: 'umol/L',
+    description: 'Adrenal hormone precursor to sex hormones; declines with age.' },
+  { id: '2143-6', name: 'Cortisol', aliases: ['cortisol am', 'morning cortisol'], unit: 'ug/dL', category: MetricCategory.Hormones, analyte: 'cortisol', siUnit: 'nmol/L',
+    description: 'Stress hormone with a strong daily rhythm, highest in the morning.' },
+  { id: '3016-3', name: 'TSH', aliases: ['thyroid stimulating hormone', 'thyrotropin'], unit: 'mIU/L', category: MetricCategory.Hormones,
+    description: 'Pituitary signal to the thyroid. High values suggest an underactive thyroid, low values an overactive one.' },
+  { id: '3024-7', name: 'Free T4', aliases: ['t4 free', 'ft4', 'free thyroxine'], unit: 'ng/dL', category: MetricCategory.Hormones, analyte: 'free-t4', siUnit: 'pmol/L',
+    description: 'Unbound thyroxine, the main hormone produced by the thyroid.' },
+  { id: '3051-0', name: 'Free T3', aliases: ['t3 free', 'ft3', 'free triiodothyronine'], unit: 'pg/mL', category: MetricCategory.Hormones, analyte: 'free-t3', siUnit: 'pmol/L',
+    description: 'Unbound triiodothyronine, the active thyroid hormone.' },
+  { id: '2857-1', name: 'PSA', aliases: ['prostate specific antigen', 'psa total'], unit: 'ng/mL', category: MetricCategory.Hormones,
+    description: 'Protein made by the prostate, used to screen for prostate enlargement and cancer.' },
+
+  // Complete blood count
+  { id: '6690-2', name: 'White Blood Cell Count', aliases: ['wbc', 'white blood cells', 'leukocytes', 'white cell count'], unit: '10^3/uL', category: MetricCategory.Blood,
+    description: 'Number of immune cells in the blood. Changes can indicate infection, inflammation or bone marrow issues.' },
+  { id: '789-8', name: 'Red Blood Cell Count', aliases: ['rbc', 'red blood cells', 'erythrocytes', 'red cell count'], unit: '10^6/uL', category: MetricCategory.Blood,
+    description: 'Number of oxygen-carrying red cells in the blood.' },
+  { id: '718-7', name: 'Hemoglobin', aliases: ['hgb', 'hb', 'haemoglobin'], unit: 'g/dL', category: MetricCategory.Blood,
+    description: 'Oxygen-carrying protein in red blood cells. Low values indicate anemia.' },
+  { id: '4544-3', name: 'Hematocrit', aliases: ['hct', 'haematocrit', 'packed cell volume'], unit: '%', category: MetricCategory.Blood,
+    description: 'Share of blood volume made up of red blood cells.' },
+  { id: '787-2', name: 'MCV', aliases: ['mean corpuscular volume', 'mean cell volume'], unit: 'fL', category: MetricCategory.Blood,
+    description: 'Average red blood cell size, useful for classifying anemia.' },
+  { id: '777-3', name: 'Platelet Count', aliases: ['platelets', 'plt'], unit: '10^3/uL', category: MetricCategory.Blood,
+    description: 'Number of clotting cells in the blood.' },
+
+  // Kidney and liver
+  { id: '2160-0', name: 'Creatinine', aliases: ['creat'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'creatinine', siUnit: 'umol/L',
+    description: 'Muscle waste product cleared by the kidneys; used to estimate kidney function.' },
+  { id: '98979-8', name: 'eGFR', aliases: ['estimated gfr', 'glomerular filtration rate', 'egfr ckd epi'], unit: 'mL/min/1.73m2', category: MetricCategory.Blood,
+    description: 'Estimated kidney filtration rate calculated from creatinine, age and sex.' },
+  { id: '3094-0', name: 'Blood Urea Nitrogen', aliases: ['bun', 'urea nitrogen'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'bun', siUnit: 'mmol/L',
+    description: 'Protein waste product cleared by the kidneys; affected by hydration and protein intake.' },
+  { id: '3084-1', name: 'Uric Acid', aliases: ['urate'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'uric-acid', siUnit: 'umol/L',
+    description: 'End product of purine metabolism. High levels are linked to gout and metabolic syndrome.' },
+  { id: '1742-6', name: 'ALT', aliases: ['alanine aminotransferase', 'sgpt', 'alt sgpt'], unit: 'U/L', category: MetricCategory.Blood,
+    description: 'Liver enzyme; elevations suggest liver cell stress such as fatty liver.' },
+  { id: '1920-8', name: 'AST', aliases: ['aspartate aminotransferase', 'sgot', 'ast sgot'], unit: 'U/L', category: MetricCategory.Blood,
+    description: 'Enzyme found in liver and muscle; rises with liver injury or hard exercise.' },
+  { id: '2324-2', name: 'GGT', aliases: ['gamma glutamyl transferase', 'ggtp'], unit: 'U/L', category: MetricCategory.Blood,
+    description: 'Liver enzyme sensitive to alcohol intake and oxidative stress.' },
+  { id: '1975-2', name: 'Bilirubin', aliases: ['total bilirubin', 'tbil'], unit: 'mg/dL', category: MetricCategory.Blood, analyte: 'bilirubin', siUnit: 'umol/L',
+    description: 'Breakdown product of hemoglobin processed by the liver.' },
+  { id: '1751-7', name: 'Albumin', aliases: ['alb'], unit: 'g/dL', category: MetricCategory.Blood,
+    description: 'Main blood protein made by the liver; reflects nutrition and liver function.' },
+
+  // Urine
+  { id: '9318-7', name: 'Urine Albumin/Creatinine Ratio', aliases: ['uacr', 'acr', 'microalbumin creatinine ratio', 'albumin creatinine ratio'], unit: 'mg/g', category: MetricCategory.Urine,
+    description: 'Early marker of kidney damage from diabetes or high blood pressure.' },
+  { id: '5811-5', name: 'Urine Specific Gravity', aliases: ['specific gravity', 'sg urine'], unit: '', category: MetricCategory.Urine,
+    description: 'Concentration of the urine, mostly reflecting hydration.' },
+  { id: '5803-2', name: 'Urine pH', aliases: ['ph urine'], unit: '', category: MetricCategory.Urine,
+    description: 'Acidity of the urine, influenced by diet and kidney function.' },
+
+  // Body composition
+  { id: '29463-7', name: 'Body Weight', aliases: ['weight', 'body mass'], unit: 'kg', category: MetricCategory.Body,
+    description: 'Total body weight.' },
+  { id: '8302-2', name: 'Body Height', aliases: ['height', 'stature'], unit: 'cm', category: MetricCategory.Body,
+    description: 'Standing height.' },
+  { id: '39156-5', name: 'BMI', aliases: ['body mass index'], unit: 'kg/m2', category: MetricCategory.Body,
+    description: 'Weight relative to height. A rough screen that does not distinguish fat from muscle.' },
+  { id: '41982-0', name: 'Body Fat', aliases: ['body fat percentage', 'body fat percent', 'bf', 'fat percentage'], unit: '%', category: MetricCategory.Body,
+    description: 'Share of body weight that is fat tissue.' },
+  { id: 'local:lean-mass', name: 'Lean Muscle Mass', aliases: ['lean mass', 'lean body mass', 'muscle mass', 'fat free mass'], unit: 'kg', category: MetricCategory.Body,
+    description: 'Weight of everything except fat, dominated by skeletal muscle.' },
+
+  // Vitals
+  { id: '8480-6', name: 'Systolic Blood Pressure', aliases: ['systolic', 'systolic bp', 'sbp', 'bp systolic'], unit: 'mmHg', category: MetricCategory.Body,
+    description: 'Pressure in the arteries while the heart beats, the top number of a blood pressure reading.' },
+  { id: '8462-4', name: 'Diastolic Blood Pressure', aliases: ['diastolic', 'diastolic bp', 'dbp', 'bp diastolic'], unit: 'mmHg', category: MetricCategory.Body,
+    description: 'Pressure in the arteries between beats, the bottom number of a blood pressure reading.' },
+
+  // Wearables
+  { id: '8867-4', name: 'Heart Rate', aliases: ['pulse', 'pulse rate', 'average heart rate'], unit: 'bpm', category: MetricCategory.Activity,
+    description: 'Average heart rate over the day, across rest and activity.' },
+  { id: '40443-4', name: 'Resting Heart Rate', aliases: ['resting hr', 'rhr', 'heart rate resting'], unit: 'bpm', category: MetricCategory.Activity,
+    description: 'Heart rate at rest; lower values generally reflect better cardiovascular fitness.' },
+  { id: '80404-7', name: 'Heart Rate Variability', aliases: ['hrv', 'hrv sdnn', 'sdnn'], unit: 'ms', category: MetricCategory.Activity,
+    description: 'Beat-to-beat variation in heart rate, a marker of recovery and autonomic balance.' },
+  { id: '41950-7', name: 'Steps', aliases: ['step count', 'daily steps'], unit: 'steps', category: MetricCategory.Activity,
+    description: 'Number of steps taken per day.' },
+  { id: 'local:vo2max', name: 'VO2 Max', aliases: ['vo2max', 'cardio fitness', 'maximal oxygen uptake'], unit: 'mL/kg/min', category: MetricCategory.Activity,
+    description: 'Maximum rate of oxygen use during exercise, a strong predictor of longevity.' },
+];
+
+// Words that qualify a lab name without changing which marker it is
+const NOISE_WORDS = new Set(['serum', 'plasma', 'blood', 'whole', 'level', 'total', 'ms', 'lcms', 'calc', 'calculated', 'test', 'measurement']);
+
+// Order-insensitive key so "Testosterone, Free" and "Free Testosterone" resolve the same
+const nameKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NOISE_WORDS.has(word))
+    .sort()
+    .join(' ');
+
+const index = new Map<string, BiomarkerDefinition>();
+BIOMARKERS.forEach(b => {
+  [b.name, ...b.aliases].forEach(alias => {
+    const key = nameKey(alias);
+    if (key && !index.has(key)) index.set(key, b);
+  });
+});
+
+export const resolveBiomarker = (name: string): BiomarkerDefinition | undefined =>
+  index.get(nameKey(name));
+
+export const getBiomarker = (id?: string): BiomarkerDefinition | undefined =>
+  id ? BIOMARKERS.find(b => b.id === id) : undefined;
+
+export const preferredUnit = (definition: BiomarkerDefinition, system: UnitSystem = 'conventional') =>
+  system === 'si' && definition.siUnit ? definition.siUnit : definition.unit;
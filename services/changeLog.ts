@@ -0,0 +1,52 @@
+import { ChangeKind, ChangeLogEntry, HealthMetric, MetricChange } from "../types";
+import { recalculateMetric } from "./referenceRanges";
+import { createId } from "./storage";
+
+// Builds and replays change log entries. Every change is a set of whole-metric snapshots,
+// so undo and redo only need to put the right side of each snapshot back.
+
+// State is updated immutably, so any metric whose object changed is part of the change
+export const diffMetrics = (before: HealthMetric[], after: HealthMetric[]): MetricChange[] => {
+  const beforeById = new Map(before.map(m => [m.id, m]));
+  const afterById = new Map(after.map(m => [m.id, m]));
+  const ids = new Set([...beforeById.keys(), ...afterById.keys()]);
+
+  return [...ids]
+    .filter(id => beforeById.get(id) !== afterById.get(id))
+    .map(id => ({ metricId: id, before: beforeById.get(id), after: afterById.get(id) }));
+};
+
+export const createLogEntry = (
+  kind: ChangeKind,
+  description: string,
+  changes: MetricChange[],
+  documentId?: string
+): ChangeLogEntry => ({
+  id: createId(),
+  timestamp: Date.now(),
+  kind,
+  description,
+  documentId,
+  changes
+});
+
+export const invertChanges = (changes: MetricChange[]): MetricChange[] =>
+  changes.map(c => ({ metricId: c.metricId, before: c.after, after: c.before }));
+
+// Puts the `after` side of each change into the metric set
+export const applyChanges = (metrics: HealthMetric[], changes: MetricChange[]): HealthMetric[] => {
+  const byId = new Map(changes.map(c => [c.metricId, c.after]));
+  const kept = metrics
+    .filter(m => !byId.has(m.id) || byId.get(m.id))
+    .map(m => byId.get(m.id) || m);
+  const restored = changes.filter(c => c.after && !metrics.some(m => m.id === c.metricId)).map(c => c.after!);
+  return [...kept, ...restored];
+};
+
+// Removes every point that came from one import, even if other changes happened since
+export const revertImportBatch = (metrics: HealthMetric[], documentId: string): HealthMetric[] =>
+  metrics.flatMap(metric => {
+    if (!metric.dataPoints.some(dp => dp.documentId === documentId)) return [metric];
+    const dataPoints = metric.dataPoints.filter(dp => dp.documentId !== documentId);
+    return dataPoints.length > 0 ? [recalculateMetric({ ...metric, dataPoints })] : [];
+  });
@@ -0,0 +1,106 @@
+import { ChatMessage, ChatThread, DataSnapshot, GeneticResult, HealthMetric } from "../types";
+import { createId } from "./storage";
+import { ChatTurn } from "./aiProvider";
+
+// Saved advisor conversations.
+
+const TITLE_LENGTH = 60;
+
+// The opening question, trimmed to a readable length
+export const titleFromMessage = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  if (line.length <= TITLE_LENGTH) return line || 'New conversation';
+  const cut = line.slice(0, TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : TITLE_LENGTH)}…`;
+};
+
+export const createMessage = (role: ChatMessage['role'], text: string, toolCalls?: ChatMessage['toolCalls']): ChatMessage => ({
+  id: createId(),
+  role,
+  text,
+  timestamp: Date.now(),
+  ...(toolCalls?.length ? { toolCalls } : {})
+});
+
+// e.g. getMetricHistory(name: "LDL Cholesterol", from: "2022-01-01")
+export const describeToolCall = (call: { name: string; args: Record<string, unknown> }) =>
+  `${call.name}(${Object.entries(call.args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')})`;
+
+// What is sent back to the model: exchanges whose answer failed or came back empty are left out
+export const toChatHistory = (messages: ChatMessage[]): ChatTurn[] =>
+  messages.flatMap((message, i) => {
+    const answer = message.role === 'user' ? messages[i + 1] : message;
+    if (!answer || answer.role !== 'model' || answer.error || !answer.text) return [];
+    return [{ role: message.role, text: message.text }];
+  });
+
+// The last question and everything after it, for regenerating or editing it
+export const splitAtLastQuestion = (thread: ChatThread) => {
+  const index = thread.messages.map(m => m.role).lastIndexOf('user');
+  return index < 0 ? null : { base: { ...thread, messages: thread.messages.slice(0, index) }, question: thread.messages[index] };
+};
+
+export const createThread = (firstMessage: string): ChatThread => {
+  const now = Date.now();
+  return { id: createId(), title: titleFromMessage(firstMessage), messages: [], createdAt: now, updatedAt: now };
+};
+
+export const takeSnapshot = (metrics: HealthMetric[], geneticResults: GeneticResult[]): DataSnapshot => ({
+  takenAt: Date.now(),
+  metrics: metrics.map(m => ({
+    metricId: m.id,
+    name: m.name,
+    value: m.latestValue,
+    unit: m.latestUnit,
+    date: m.latestDate,
+    status: m.status
+  })),
+  geneticResults: geneticResults.map(r => ({ id: r.id, name: r.name, genotype: r.genotype }))
+});
+
+// False once a reading was added, edited or removed after the answer was generated
+export const isSnapshotCurrent = (snapshot: DataSnapshot, metrics: HealthMetric[]) =>
+  snapshot.metrics.length === metrics.length &&
+  snapshot.metrics.every(s => {
+    const metric = metrics.find(m => m.id === s.metricId);
+    return !!metric && metric.latestDate === s.date && metric.latestValue === s.value && metric.latestUnit === s.unit;
+  });
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const threadToMarkdown = (thread: ChatThread) => {
+  const lines = [`# ${thread.title}`, '', `Started ${formatTime(thread.createdAt)}`, ''];
+
+  thread.messages.forEach(message => {
+    if (message.error) return;
+    lines.push(`## ${message.role === 'user' ? 'You' : 'Advisor'} (${formatTime(message.timestamp)})`, '', message.text, '');
+    if (message.stopped) lines.push('_(stopped)_', '');
+    if (message.toolCalls?.length) {
+      lines.push(`_Looked up: ${message.toolCalls.map(call => `\`${describeToolCall(call)}\``).join(', ')}_`, '');
+    }
+  });
+
+  if (thread.snapshot) {
+    lines.push(`## Data used (as of ${formatTime(thread.snapshot.takenAt)})`, '');
+    lines.push('| Metric | Value | Date | Status |', '| --- | --- | --- | --- |');
+    thread.snapshot.metrics.forEach(m => lines.push(`| ${m.name} | ${m.value} ${m.unit} | ${m.date} | ${m.status} |`));
+    if (thread.snapshot.geneticResults.length > 0) {
+      lines.push('', '| Genetic Variant | Genotype |', '| --- | --- |');
+      thread.snapshot.geneticResults.forEach(r => lines.push(`| ${r.name} | ${r.genotype} |`));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+export const downloadThreadMarkdown = (thread: ChatThread) => {
+  const blob = new Blob([threadToMarkdown(thread)], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  link.download = `advisor-${slug || 'conversation'}.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
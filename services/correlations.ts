@@ -0,0 +1,138 @@
+import { HealthMetric, MetricValue } from "../types";
+import { getTrendPoints } from "./trendAnalytics";
+
+// Pairwise correlations between metric series. Readings are paired by date within a tolerance,
+// since two tests rarely land on exactly the same day.
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman'
+};
+
+export const TOLERANCE_OPTIONS = [0, 3, 7, 30]; // days
+export const DEFAULT_TOLERANCE_DAYS = 7;
+export const MIN_PAIRS = 5;
+
+export interface PairedReading {
+  date: string; // of the first metric's reading
+  x: number;
+  y: number;
+}
+
+export interface CorrelationResult {
+  a: HealthMetric;
+  b: HealthMetric;
+  n: number;
+  pearson: number;
+  spearman: number;
+  pairs: PairedReading[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toTime = (date: string) => new Date(date).getTime();
+
+// Each reading of b is used at most once, by the closest reading of a
+export const alignSeries = (a: MetricValue[], b: MetricValue[], toleranceDays: number): PairedReading[] => {
+  const bTimes = b.map(dp => toTime(dp.date));
+  const best = new Map<number, { distance: number; pair: PairedReading }>();
+
+  a.forEach(dp => {
+    const time = toTime(dp.date);
+    // b is sorted by date, so the closest reading is next to the insertion point
+    let lo = 0;
+    let hi = bTimes.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (bTimes[mid] < time) lo = mid + 1; else hi = mid;
+    }
+    const candidates = [lo - 1, lo].filter(i => i >= 0 && i < bTimes.length);
+    const index = candidates.sort((i, j) => Math.abs(bTimes[i] - time) - Math.abs(bTimes[j] - time))[0];
+    if (index === undefined) return;
+
+    const distance = Math.abs(bTimes[index] - time);
+    if (distance > toleranceDays * DAY_MS) return;
+    const current = best.get(index);
+    if (!current || distance < current.distance) {
+      best.set(index, { distance, pair: { date: dp.date, x: dp.value, y: b[index].value } });
+    }
+  });
+
+  return [...best.values()].map(v => v.pair).sort((p, q) => toTime(p.date) - toTime(q.date));
+};
+
+export const pearson = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - meanX) * (ys[i] - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (ys[i] - meanY) ** 2;
+  });
+  return sxx === 0 || syy === 0 ? NaN : sxy / Math.sqrt(sxx * syy);
+};
+
+// Ranks starting at 1; ties share the average of their ranks
+const rank = (values: number[]) => {
+  const order = values.map((value, index) => ({ value, index })).sort((p, q) => p.value - q.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  return ranks;
+};
+
+export const spearman = (xs: number[], ys: number[]) => pearson(rank(xs), rank(ys));
+
+// A calculated metric trivially tracks its own inputs
+const isDerivedFrom = (a: HealthMetric, b: HealthMetric) =>
+  !!a.derived?.inputIds.includes(b.id) || !!b.derived?.inputIds.includes(a.id);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const correlate = (a: HealthMetric, b: HealthMetric, toleranceDays: number): CorrelationResult | undefined => {
+  const pairs = alignSeries(getTrendPoints(a), getTrendPoints(b), toleranceDays);
+  if (pairs.length < MIN_PAIRS) return undefined;
+  const xs = pairs.map(p => p.x);
+  const ys = pairs.map(p => p.y);
+  const r = pearson(xs, ys);
+  // A constant series has no correlation to speak of
+  if (Number.isNaN(r)) return undefined;
+  return { a, b, n: pairs.length, pearson: round(r), spearman: round(spearman(xs, ys)), pairs };
+};
+
+// Every pair of metrics with enough overlapping readings
+export const computeCorrelations = (metrics: HealthMetric[], toleranceDays = DEFAULT_TOLERANCE_DAYS): CorrelationResult[] => {
+  const results: CorrelationResult[] = [];
+  metrics.forEach((a, i) => {
+    metrics.slice(i + 1).forEach(b => {
+      if (isDerivedFrom(a, b)) return;
+      const result = correlate(a, b, toleranceDays);
+      if (result) results.push(result);
+    });
+  });
+  return results;
+};
+
+export const getCoefficient = (result: CorrelationResult, method: CorrelationMethod) =>
+  method === 'pearson' ? result.pearson : result.spearman;
+
+// Strongest first, ignoring weak ones
+export const topCorrelations = (results: CorrelationResult[], limit = 5, minStrength = 0.5, method: CorrelationMethod = 'spearman') =>
+  results
+    .filter(r => Math.abs(getCoefficient(r, method)) >= minStrength)
+    .sort((p, q) => Math.abs(getCoefficient(q, method)) - Math.abs(getCoefficient(p, method)))
+    .slice(0, limit);
+
+// e.g. "Ferritin vs Hemoglobin: Pearson 0.72, Spearman 0.68 (8 paired readings)"
+export const describeCorrelation = (result: CorrelationResult) =>
+  `${result.a.name} vs ${result.b.name}: Pearson ${result.pearson}, Spearman ${result.spearman} (${result.n} paired readings)`;
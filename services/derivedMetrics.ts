@@ -0,0 +1,175 @@
+import { HealthMetric, MetricCategory, MetricValue } from "../types";
+import { getBiomarker, resolveBiomarker } from "./biomarkerCatalog";
+import { convertUnit } from "./unitConversion";
+import { RangeSubject, parseReferenceRange, recalculateMetric } from "./referenceRanges";
+import { getAge } from "./profiles";
+
+// Ratios and indices calculated from measured metrics. They are recomputed whenever the
+// measured data changes and are never stored, so they cannot drift from their inputs.
+
+interface DerivedInput {
+  key: string;
+  canonicalId: string; // catalog ID of the measured metric
+  unit: string; // unit the formula expects; values are converted first
+  toleranceDays: number; // how far from the anchor date a reading may be and still be paired
+}
+
+export interface DerivedDefinition {
+  id: string;
+  name: string;
+  unit: string;
+  category: MetricCategory;
+  description: string;
+  formula: string; // shown to the user
+  referenceRange: string; // parsed like a lab's printed range
+  // The first input is the anchor: there is one derived point per anchor reading
+  inputs: DerivedInput[];
+  compute: (values: Record<string, number>, subject: RangeSubject | undefined, date: string) => number | undefined;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SAME_DRAW = 3; // days; results from one blood draw are sometimes reported a day or two apart
+
+// CKD-EPI 2021 creatinine equation (race-free), with the age on the day of the reading
+const ckdEpi2021 = (creatinine: number, subject: RangeSubject | undefined, date: string) => {
+  const age = subject?.birthDate ? getAge(subject.birthDate, new Date(date)) : subject?.age;
+  if (!subject?.sex || age === undefined) return undefined;
+  const female = subject.sex === 'female';
+  const kappa = female ? 0.7 : 0.9;
+  const alpha = female ? -0.241 : -0.302;
+  const ratio = creatinine / kappa;
+  return 142 * Math.min(ratio, 1) ** alpha * Math.max(ratio, 1) ** -1.2 * 0.9938 ** age * (female ? 1.012 : 1);
+};
+
+export const DERIVED_METRICS: DerivedDefinition[] = [
+  {
+    id: 'derived:tg-hdl', name: 'TG/HDL Ratio', unit: 'ratio', category: MetricCategory.Blood,
+    description: 'Triglycerides divided by HDL. A simple marker of insulin resistance and small, dense LDL particles.',
+    formula: 'Triglycerides ÷ HDL (mg/dL)', referenceRange: '<3.0; Optimal <2.0',
+    inputs: [
+      { key: 'tg', canonicalId: '2571-8', unit: 'mg/dL', toleranceDays: SAME_DRAW },
+      { key: 'hdl', canonicalId: '2085-9', unit: 'mg/dL', toleranceDays: SAME_DRAW },
+    ],
+    compute: ({ tg, hdl }) => hdl > 0 ? tg / hdl : undefined
+  },
+  {
+    id: 'derived:homa-ir', name: 'HOMA-IR', unit: 'index', category: MetricCategory.Blood,
+    description: 'Insulin resistance estimated from fasting glucose and fasting insulin.',
+    formula: 'Glucose (mg/dL) × Insulin (uIU/mL) ÷ 405', referenceRange: '<2.5; Optimal <1.0',
+    inputs: [
+      { key: 'glucose', canonicalId: '2345-7', unit: 'mg/dL', toleranceDays: SAME_DRAW },
+      { key: 'insulin', canonicalId: '20448-7', unit: 'uIU/mL', toleranceDays: SAME_DRAW },
+    ],
+    compute: ({ glucose, insulin }) => glucose * insulin / 405
+  },
+  {
+    id: 'derived:egfr', name: 'eGFR (calculated)', unit: 'mL/min/1.73m2', category: MetricCategory.Blood,
+    description: 'Kidney filtration rate estimated from creatinine, age and sex. Needs sex and birth date on the profile.',
+    formula: 'CKD-EPI 2021 from creatinine, age and sex', referenceRange: '>=60',
+    inputs: [
+      { key: 'creatinine', canonicalId: '2160-0', unit: 'mg/dL', toleranceDays: 0 },
+    ],
+    compute: ({ creatinine }, subject, date) => ckdEpi2021(creatinine, subject, date)
+  },
+  {
+    id: 'derived:fai', name: 'Free Androgen Index', unit: '%', category: MetricCategory.Hormones,
+    description: 'Total testosterone relative to SHBG, an estimate of biologically available testosterone.',
+    formula: '100 × Total Testosterone ÷ SHBG (nmol/L)', referenceRange: 'Male: 30-150; Female: 0.5-6.5',
+    inputs: [
+      { key: 'testosterone', canonicalId: '2986-8', unit: 'nmol/L', toleranceDays: SAME_DRAW },
+      { key: 'shbg', canonicalId: '13967-5', unit: 'nmol/L', toleranceDays: SAME_DRAW },
+    ],
+    compute: ({ testosterone, shbg }) => shbg > 0 ? 100 * testosterone / shbg : undefined
+  },
+  {
+    id: 'derived:bmi', name: 'BMI (calculated)', unit: 'kg/m2', category: MetricCategory.Body,
+    description: 'Body mass index from weight and the closest height measurement.',
+    formula: 'Weight (kg) ÷ Height (m)²', referenceRange: '18.5-24.9',
+    inputs: [
+      { key: 'weight', canonicalId: '29463-7', unit: 'kg', toleranceDays: 0 },
+      // Adult height barely changes, so any height reading will do
+      { key: 'height', canonicalId: '8302-2', unit: 'cm', toleranceDays: Infinity },
+    ],
+    compute: ({ weight, height }) => height > 0 ? weight / (height / 100) ** 2 : undefined
+  },
+];
+
+const findInputMetric = (metrics: HealthMetric[], canonicalId: string) =>
+  metrics.find(m => !m.derived && (m.canonicalId || resolveBiomarker(m.name)?.id) === canonicalId);
+
+// A reading in the unit the formula expects, or undefined if it cannot be converted
+const toFormulaUnit = (dp: MetricValue, input: DerivedInput) => {
+  const conversion = convertUnit(dp.value, dp.unit, input.unit, getBiomarker(input.canonicalId)?.analyte);
+  return conversion.error ? undefined : { dp, value: conversion.value };
+};
+
+const daysApart = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY_MS;
+
+const closestWithin = (points: MetricValue[], date: string, toleranceDays: number) => {
+  let best: MetricValue | undefined;
+  points.forEach(dp => {
+    const distance = daysApart(dp.date, date);
+    if (distance <= toleranceDays && (!best || distance < daysApart(best.date, date))) best = dp;
+  });
+  return best;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const computeDerivedMetric = (
+  definition: DerivedDefinition,
+  metrics: HealthMetric[],
+  subject?: RangeSubject
+): HealthMetric | undefined => {
+  const sources = definition.inputs.map(input => findInputMetric(metrics, input.canonicalId));
+  if (sources.some(source => !source)) return undefined;
+
+  const [anchorInput, ...otherInputs] = definition.inputs;
+  const [anchor, ...others] = sources as HealthMetric[];
+  const ranges = parseReferenceRange(definition.referenceRange, definition.unit);
+
+  const dataPoints: MetricValue[] = anchor.dataPoints.flatMap(anchorPoint => {
+    const paired = [toFormulaUnit(anchorPoint, anchorInput)];
+    otherInputs.forEach((input, i) => {
+      const dp = closestWithin(others[i].dataPoints, anchorPoint.date, input.toleranceDays);
+      paired.push(dp && toFormulaUnit(dp, input));
+    });
+    if (paired.some(p => !p)) return [];
+
+    const values = Object.fromEntries(definition.inputs.map((input, i) => [input.key, paired[i]!.value]));
+    const value = definition.compute(values, subject, anchorPoint.date);
+    if (value === undefined || !Number.isFinite(value)) return [];
+
+    return [{
+      date: anchorPoint.date,
+      value: round(value),
+      unit: definition.unit,
+      referenceRange: definition.referenceRange,
+      ranges,
+      sourceDoc: 'Calculated',
+      note: paired.map((p, i) => `${sources[i]!.name} ${p!.dp.value} ${p!.dp.unit} (${p!.dp.date})`).join(', ')
+    }];
+  });
+
+  if (dataPoints.length === 0) return undefined;
+
+  return recalculateMetric({
+    id: definition.id,
+    canonicalId: definition.id,
+    name: definition.name,
+    category: definition.category,
+    dataPoints,
+    latestValue: 0,
+    latestUnit: definition.unit,
+    latestDate: '',
+    status: 'Normal',
+    description: definition.description,
+    derived: { formula: definition.formula, inputIds: sources.map(source => source!.id) }
+  }, subject);
+};
+
+// Every derived metric the measured data allows
+export const computeDerivedMetrics = (metrics: HealthMetric[], subject?: RangeSubject): HealthMetric[] =>
+  DERIVED_METRICS
+    .map(definition => computeDerivedMetric(definition, metrics, subject))
+    .filter((m): m is HealthMetric => !!m);
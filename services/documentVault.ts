@@ -0,0 +1,43 @@
+import { HealthMetric, SourceDocument } from "../types";
+
+// Original files of imported reports, kept so every extracted value can be checked against
+// the page it was read from. The files themselves live in documentFilesRepository.
+
+export type DocumentPreview = 'pdf' | 'image' | 'text' | 'none';
+
+export const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// An earlier import of the exact same contents that some reading still comes from. Once an
+// import is undone, reverted or deleted, the same file can be imported again.
+export const findDuplicateDocument = (documents: SourceDocument[], hash: string, metrics: HealthMetric[]) =>
+  documents.find(d => d.hash === hash && metrics.some(m => m.dataPoints.some(dp => dp.documentId === d.id)));
+
+export const getDocumentPreview = (mimeType?: string): DocumentPreview => {
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType?.startsWith('image/')) return 'image';
+  if (mimeType?.startsWith('text/') || mimeType === 'application/json') return 'text';
+  return 'none';
+};
+
+// Browser PDF viewers open at the page given in the fragment
+export const pdfPageUrl = (url: string, page?: number) => page ? `${url}#page=${page}` : url;
+
+// Splits text around the first occurrence of the snippet, ignoring case and runs of whitespace
+export const locateSnippet = (text: string, snippet?: string): { before: string; match: string; after: string } | null => {
+  const words = snippet?.trim().split(/\s+/).filter(Boolean);
+  if (!words?.length) return null;
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'i');
+  const found = pattern.exec(text);
+  if (!found) return null;
+  return {
+    before: text.slice(0, found.index),
+    match: found[0],
+    after: text.slice(found.index + found[0].length)
+  };
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
@@ -0,0 +1,81 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { exportFhirBundle, importFhir } from './fhir';
+import { HealthMetric, MetricCategory, NormalizedMetric } from '../types';
+
+const loadSample = (name: string) =>
+  JSON.parse(readFileSync(path.resolve(__dirname, '../samples/fhir', name), 'utf8'));
+
+// What a round trip has to preserve
+const readings = (metrics: NormalizedMetric[]) =>
+  metrics.map(({ name, value, unit, date, ranges }) => ({ name, value, unit, date, ranges }));
+
+// One metric per imported reading, as if each had been merged into an empty profile
+const toMetrics = (imported: NormalizedMetric[], sourceDoc: string): HealthMetric[] =>
+  imported.map((m, i) => ({
+    id: String(i),
+    canonicalId: m.canonicalId,
+    name: m.name,
+    category: m.category as MetricCategory,
+    dataPoints: [{ date: m.date, value: m.value, unit: m.unit, referenceRange: m.referenceRange, ranges: m.ranges, sourceDoc }],
+    latestValue: m.value,
+    latestUnit: m.unit,
+    latestDate: m.date,
+    status: 'Normal'
+  }));
+
+describe('importFhir', () => {
+  it('reads a lab report bundle', () => {
+    const result = importFhir(loadSample('lipid-panel-report.json'));
+
+    // The entered-in-error LDL is left out; the others take the report's date
+    expect(result.skipped).toEqual([]);
+    expect(result.metrics.map(m => [m.name, m.value, m.unit, m.date, m.status])).toEqual([
+      ['Total Cholesterol', 212, 'mg/dL', '2024-03-12', 'High'],
+      ['LDL Cholesterol', 131, 'mg/dL', '2024-03-12', ''],
+      ['HDL Cholesterol', 1.4, 'mmol/L', '2024-03-12', ''],
+      ['Triglycerides', 98, 'mg/dL', '2024-03-12', ''],
+    ]);
+  });
+
+  it('reads reference ranges, including optimal and sex-specific ones', () => {
+    const [cholesterol, ldl, hdl, triglycerides] = importFhir(loadSample('lipid-panel-report.json')).metrics;
+
+    expect(cholesterol.referenceRange).toBe('<=199');
+    expect(cholesterol.ranges).toEqual([{ kind: 'lab', high: { value: 199, inclusive: true } }]);
+    expect(ldl.ranges).toEqual([
+      { kind: 'lab', high: { value: 99, inclusive: true } },
+      { kind: 'optimal', high: { value: 70, inclusive: true } },
+    ]);
+    expect(hdl.ranges).toEqual([
+      { kind: 'lab', low: { value: 1, inclusive: true }, sex: 'male' },
+      { kind: 'lab', low: { value: 1.3, inclusive: true }, sex: 'female' },
+    ]);
+    expect(triglycerides.referenceRange).toBe('<150');
+  });
+
+  it('reads vitals, components and UCUM units', () => {
+    const result = importFhir(loadSample('vitals-and-vitamins.json'));
+
+    expect(result.metrics.map(m => [m.name, m.value, m.unit, m.date, m.referenceRange])).toEqual([
+      ['Vitamin D, 25-OH', 62, 'nmol/L', '2024-05-02', '75-250'],
+      ['Body Weight', 172.4, 'lb', '2024-05-02', ''],
+      ['Systolic Blood Pressure', 128, 'mmHg', '2024-05-02', '<=120'],
+      ['Diastolic Blood Pressure', 79, 'mmHg', '2024-05-02', '<=80'],
+      ['White Blood Cell Count', 6.1, '10^3/uL', '2024-05-02', '3.4-10.8'],
+    ]);
+    expect(result.metrics[0].status).toBe('Low');
+    expect(result.metrics.find(m => m.name === 'Body Weight')?.category).toBe('Body');
+    expect(result.skipped).toEqual([{ name: 'ABO and Rh group', reason: 'Only numeric values (valueQuantity) can be imported' }]);
+  });
+});
+
+describe('exportFhirBundle', () => {
+  it.each(['lipid-panel-report.json', 'vitals-and-vitamins.json'])('round-trips %s', name => {
+    const imported = importFhir(loadSample(name)).metrics;
+    const exported = exportFhirBundle(toMetrics(imported, name));
+
+    expect(readings(importFhir(exported).metrics)).toEqual(readings(imported));
+  });
+});
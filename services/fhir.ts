@@ -0,0 +1,353 @@
+import { HealthMetric, MetricCategory, MetricStatus, NormalizedMetric, ReferenceRange } from "../types";
+import { getBiomarker, resolveBiomarker } from "./biomarkerCatalog";
+import { getRanges, getPointStatus, selectRange } from "./referenceRanges";
+
+// Deterministic FHIR R4 import (Observation / DiagnosticReport) and export (Bundle).
+// Only the fields this app uses are modelled.
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+interface FhirReferenceRange {
+  low?: FhirQuantity;
+  high?: FhirQuantity;
+  type?: FhirCodeableConcept;
+  appliesTo?: FhirCodeableConcept[];
+  age?: { low?: FhirQuantity; high?: FhirQuantity };
+  text?: string;
+}
+
+interface FhirObservationComponent {
+  code: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+  interpretation?: FhirCodeableConcept[];
+  referenceRange?: FhirReferenceRange[];
+}
+
+interface FhirObservation extends FhirObservationComponent {
+  resourceType: 'Observation';
+  id?: string;
+  status?: string;
+  category?: FhirCodeableConcept[];
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  issued?: string;
+  component?: FhirObservationComponent[];
+}
+
+interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+interface FhirDiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id?: string;
+  status?: string;
+  code?: FhirCodeableConcept;
+  effectiveDateTime?: string;
+  issued?: string;
+  result?: FhirReference[];
+  contained?: FhirResource[];
+}
+
+type FhirResource = FhirObservation | FhirDiagnosticReport | { resourceType: string; id?: string };
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource: FhirResource }[];
+}
+
+export interface FhirImportResult {
+  metrics: NormalizedMetric[];
+  skipped: { name: string; reason: string }[];
+}
+
+// UCUM codes that differ from how the rest of the app writes units
+const UCUM_TO_DISPLAY: Record<string, string> = {
+  '[lb_av]': 'lb',
+  '[in_i]': 'in',
+  '/min': 'bpm',
+  '{beats}/min': 'bpm',
+  '{steps}': 'steps',
+  '{steps}/d': 'steps',
+  'Cel': 'C',
+  '[degF]': 'F',
+  'mm[Hg]': 'mmHg',
+  '[IU]/L': 'IU/L',
+  'm[IU]/L': 'mIU/L',
+  'u[IU]/mL': 'uIU/mL',
+};
+
+const DISPLAY_TO_UCUM: Record<string, string> = Object.fromEntries(
+  Object.entries(UCUM_TO_DISPLAY).map(([ucum, display]) => [display, ucum])
+);
+
+const unitFromQuantity = (q: FhirQuantity): string => {
+  const code = q.system === UCUM_SYSTEM ? q.code : undefined;
+  if (code && UCUM_TO_DISPLAY[code]) return UCUM_TO_DISPLAY[code];
+  return (q.unit || code || '').replace(/10\*(\d+)/g, '10^$1');
+};
+
+const unitToUcum = (unit: string) =>
+  DISPLAY_TO_UCUM[unit] || unit.replace(/10\^(\d+)/g, '10*$1');
+
+const toDate = (dateTime?: string) => dateTime?.split('T')[0];
+
+const conceptName = (concept: FhirCodeableConcept) =>
+  concept.text || concept.coding?.find(c => c.display)?.display || concept.coding?.[0]?.code || 'Unknown';
+
+const loincCode = (concept: FhirCodeableConcept) =>
+  concept.coding?.find(c => c.system === LOINC_SYSTEM)?.code;
+
+const interpretationToStatus = (concepts?: FhirCodeableConcept[]): string => {
+  const code = concepts?.[0]?.coding?.[0]?.code?.toUpperCase();
+  if (!code) return '';
+  if (code.startsWith('H')) return 'High';
+  if (code.startsWith('L')) return 'Low';
+  if (code === 'N') return 'Normal';
+  return '';
+};
+
+const categoryFor = (observation: FhirObservation, canonical?: MetricCategory): MetricCategory => {
+  if (canonical) return canonical;
+  const codes = (observation.category || []).flatMap(c => c.coding || []).map(c => c.code);
+  if (codes.includes('vital-signs')) return MetricCategory.Body;
+  if (codes.includes('activity')) return MetricCategory.Activity;
+  return MetricCategory.Other;
+};
+
+const mapReferenceRanges = (ranges: FhirReferenceRange[] = []): { text: string; ranges: ReferenceRange[] } => {
+  const mapped: ReferenceRange[] = ranges
+    .filter(r => r.low?.value !== undefined || r.high?.value !== undefined)
+    .map(r => {
+      const typeCode = r.type?.coding?.[0]?.code;
+      const sex = (r.appliesTo || []).flatMap(a => a.coding || []).map(c => c.code).find(c => c === 'male' || c === 'female');
+      return {
+        kind: typeCode === 'recommended' || typeCode === 'treatment' || typeCode === 'therapeutic' ? 'optimal' : 'lab',
+        low: r.low?.value !== undefined ? { value: r.low.value, inclusive: true } : undefined,
+        high: r.high?.value !== undefined ? { value: r.high.value, inclusive: true } : undefined,
+        sex: sex as ReferenceRange['sex'],
+        minAge: r.age?.low?.value,
+        maxAge: r.age?.high?.value
+      };
+    });
+
+  const text = ranges
+    .map(r => r.text || (
+      r.low?.value !== undefined && r.high?.value !== undefined ? `${r.low.value}-${r.high.value}` :
+      r.low?.value !== undefined ? `>=${r.low.value}` :
+      r.high?.value !== undefined ? `<=${r.high.value}` : ''
+    ))
+    .filter(Boolean)
+    .join('; ');
+
+  return { text, ranges: mapped };
+};
+
+const collectResources = (input: any): FhirResource[] => {
+  if (!input || typeof input !== 'object') return [];
+  if (input.resourceType === 'Bundle') {
+    return (input.entry || []).flatMap((e: any) => collectResources(e.resource));
+  }
+  if (input.resourceType === 'DiagnosticReport') {
+    return [input, ...(input.contained || []).flatMap(collectResources)];
+  }
+  return [input];
+};
+
+export const isFhirResource = (input: any): boolean =>
+  !!input && typeof input === 'object' &&
+  ['Bundle', 'Observation', 'DiagnosticReport'].includes(input.resourceType);
+
+// Returns the parsed JSON when the text is a FHIR resource, otherwise null
+export const tryParseFhir = (text: string): FhirResource | null => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const json = JSON.parse(trimmed);
+    return isFhirResource(json) ? json : null;
+  } catch {
+    return null;
+  }
+};
+
+export const importFhir = (input: FhirResource): FhirImportResult => {
+  const resources = collectResources(input);
+  const metrics: NormalizedMetric[] = [];
+  const skipped: FhirImportResult['skipped'] = [];
+
+  // Observations referenced by a report inherit its date when they have none of their own
+  const reportDates = new Map<string, string>();
+  resources
+    .filter((r): r is FhirDiagnosticReport => r.resourceType === 'DiagnosticReport')
+    .forEach(report => {
+      const date = toDate(report.effectiveDateTime || report.issued);
+      (report.result || []).forEach(ref => {
+        const id = ref.reference?.replace(/^urn:uuid:/, '').split('/').pop()?.replace(/^#/, '');
+        if (id && date) reportDates.set(id, date);
+      });
+    });
+
+  const addEntry = (observation: FhirObservation, entry: FhirObservationComponent) => {
+    const name = conceptName(entry.code);
+    const quantity = entry.valueQuantity;
+    if (quantity?.value === undefined) {
+      skipped.push({ name, reason: 'Only numeric values (valueQuantity) can be imported' });
+      return;
+    }
+
+    const date =
+      toDate(observation.effectiveDateTime || observation.effectivePeriod?.start || observation.issued) ||
+      (observation.id ? reportDates.get(observation.id) : undefined);
+    if (!date) {
+      skipped.push({ name, reason: 'Observation has no effective date' });
+      return;
+    }
+
+    const definition = getBiomarker(loincCode(entry.code)) || resolveBiomarker(name);
+    const { text, ranges } = mapReferenceRanges(entry.referenceRange);
+
+    metrics.push({
+      name: definition?.name || name,
+      canonicalId: definition?.id,
+      value: quantity.value,
+      unit: unitFromQuantity(quantity),
+      category: categoryFor(observation, definition?.category),
+      date,
+      referenceRange: text,
+      ranges,
+      status: interpretationToStatus(entry.interpretation)
+    });
+  };
+
+  resources
+    .filter((r): r is FhirObservation => r.resourceType === 'Observation')
+    .forEach(observation => {
+      if (observation.status === 'entered-in-error' || observation.status === 'cancelled') return;
+      // Panels like blood pressure carry their values in components
+      if (observation.component?.length && observation.valueQuantity === undefined) {
+        observation.component.forEach(c => addEntry(observation, c));
+      } else {
+        addEntry(observation, observation);
+      }
+    });
+
+  return { metrics, skipped };
+};
+
+const statusToInterpretation: Record<MetricStatus, { code: string; display: string }> = {
+  High: { code: 'H', display: 'High' },
+  Low: { code: 'L', display: 'Low' },
+  Normal: { code: 'N', display: 'Normal' },
+  Optimal: { code: 'N', display: 'Normal' },
+  Borderline: { code: 'N', display: 'Normal' },
+};
+
+const toFhirRange = (range: ReferenceRange, unit: string): FhirReferenceRange => {
+  const quantity = (value: number): FhirQuantity => ({ value, unit, system: UCUM_SYSTEM, code: unitToUcum(unit) });
+  return {
+    low: range.low ? quantity(range.low.value) : undefined,
+    high: range.high ? quantity(range.high.value) : undefined,
+    type: range.kind === 'optimal'
+      ? { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/referencerange-meaning', code: 'recommended' }] }
+      : undefined,
+    appliesTo: range.sex
+      ? [{ coding: [{ system: 'http://hl7.org/fhir/administrative-gender', code: range.sex }] }]
+      : undefined,
+    age: range.minAge !== undefined || range.maxAge !== undefined
+      ? {
+          low: range.minAge !== undefined ? { value: range.minAge, unit: 'a', system: UCUM_SYSTEM, code: 'a' } : undefined,
+          high: range.maxAge !== undefined ? { value: range.maxAge, unit: 'a', system: UCUM_SYSTEM, code: 'a' } : undefined
+        }
+      : undefined
+  };
+};
+
+const categoryCode = (category: MetricCategory) =>
+  category === MetricCategory.Body ? 'vital-signs' :
+  category === MetricCategory.Activity ? 'activity' : 'laboratory';
+
+// Every data point becomes an Observation; points from the same source document are grouped in a DiagnosticReport
+export const exportFhirBundle = (metrics: HealthMetric[]): FhirBundle => {
+  const entry: FhirBundle['entry'] = [];
+  const reports = new Map<string, { name: string; date: string; results: FhirReference[] }>();
+
+  metrics.forEach(metric => {
+    const definition = getBiomarker(metric.canonicalId);
+    const isLoinc = !!definition && !definition.id.startsWith('local:');
+
+    metric.dataPoints.forEach(dp => {
+      const id = crypto.randomUUID();
+      const fullUrl = `urn:uuid:${id}`;
+      const lab = selectRange(getRanges(dp), 'lab');
+      const status = getPointStatus(dp);
+
+      const observation: FhirObservation = {
+        resourceType: 'Observation',
+        id,
+        status: 'final',
+        category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: categoryCode(metric.category) }] }],
+        code: {
+          coding: isLoinc ? [{ system: LOINC_SYSTEM, code: definition!.id, display: definition!.name }] : undefined,
+          text: metric.name
+        },
+        effectiveDateTime: dp.date,
+        valueQuantity: { value: dp.value, unit: dp.unit, system: UCUM_SYSTEM, code: unitToUcum(dp.unit) },
+        interpretation: [{ coding: [{ system: INTERPRETATION_SYSTEM, ...statusToInterpretation[status] }] }],
+        // Every range is kept, so e.g. male and female ranges both survive a round trip
+        referenceRange: getRanges(dp)
+          .map(r => ({ ...toFhirRange(r, dp.unit), text: r === lab ? dp.referenceRange || undefined : undefined }))
+      };
+      entry.push({ fullUrl, resource: observation });
+
+      if (dp.sourceDoc) {
+        const key = `${dp.documentId || dp.sourceDoc}|${dp.date}`;
+        if (!reports.has(key)) reports.set(key, { name: dp.sourceDoc, date: dp.date, results: [] });
+        reports.get(key)!.results.push({ reference: fullUrl, display: metric.name });
+      }
+    });
+  });
+
+  reports.forEach(report => {
+    const id = crypto.randomUUID();
+    const resource: FhirDiagnosticReport = {
+      resourceType: 'DiagnosticReport',
+      id,
+      status: 'final',
+      code: { text: report.name },
+      effectiveDateTime: report.date,
+      result: report.results
+    };
+    entry.push({ fullUrl: `urn:uuid:${id}`, resource });
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry
+  };
+};
@@ -0,0 +1,95 @@
+// Chunked file reading shared by the local importers, so memory stays flat on very large exports.
+
+export type ProgressCallback = (fraction: number) => void;
+
+export const streamText = async (file: File, onText: (text: string) => void, onProgress?: ProgressCallback) => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    onText(decoder.decode(value, { stream: true }));
+    onProgress?.(file.size ? bytesRead / file.size : 1);
+  }
+  onText(decoder.decode());
+};
+
+// Calls onLine for every complete line, carrying partial lines across chunks
+export const streamLines = async (file: File, onLine: (line: string) => void, onProgress?: ProgressCallback) => {
+  let buffer = '';
+  await streamText(file, text => {
+    buffer += text;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+    lines.forEach(line => line && onLine(line));
+  }, onProgress);
+  if (buffer) onLine(buffer);
+};
+
+const MAX_JSON_HEAD = 1024 * 1024;
+
+// Calls onItem for every element of the first array stored under one of `keys`, parsing one
+// element at a time instead of the whole document. `head` is the JSON text before the array.
+export const streamJsonArray = async (
+  file: File,
+  keys: string[],
+  onItem: (item: any, head: string) => void,
+  onProgress?: ProgressCallback
+) => {
+  const opening = new RegExp(`"(?:${keys.join('|')})"\\s*:\\s*\\[`);
+  let head = '';
+  let inArray = false;
+  let finished = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let item = '';
+
+  const scan = (text: string) => {
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const c = text[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') inString = false;
+      } else if (c === '"') {
+        inString = true;
+      } else if (c === '{' || c === '[') {
+        if (depth === 0) start = i;
+        depth++;
+      } else if (c === '}' || c === ']') {
+        // The array itself closed
+        if (depth === 0) {
+          finished = true;
+          return;
+        }
+        depth--;
+        if (depth === 0) {
+          onItem(JSON.parse(item + text.slice(start, i + 1)), head);
+          item = '';
+        }
+      }
+    }
+    if (depth > 0) item += text.slice(start);
+  };
+
+  await streamText(file, text => {
+    if (finished) return;
+    if (inArray) return scan(text);
+
+    head += text;
+    const found = opening.exec(head);
+    if (!found) {
+      if (head.length > MAX_JSON_HEAD) throw new Error(`No ${keys[0]} array found in ${file.name}`);
+      return;
+    }
+    inArray = true;
+    const rest = head.slice(found.index + found[0].length);
+    head = head.slice(0, found.index);
+    scan(rest);
+  }, onProgress);
+};
@@ -0,0 +1,71 @@
+import { FunctionCall, FunctionCallingConfigMode, GenerateContentConfig, GoogleGenAI, SendMessageParameters } from "@google/genai";
+import { AiProvider, MAX_TOOL_ROUNDS, ToolCall, runTool } from "./aiProvider";
+
+export const createGeminiProvider = (apiKey?: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    generateJson: async ({ model, prompt, input, schema }) => {
+      const parts: any[] = [{ text: prompt }];
+      if (typeof input === 'string') parts.push({ text: input });
+      else if (input) parts.push({ inlineData: { mimeType: input.mimeType, data: input.data } });
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts }],
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema
+        }
+      });
+
+      if (!response.text) throw new Error("The model returned an empty response");
+      return JSON.parse(response.text);
+    },
+
+    chat: async ({ model, systemInstruction, history, message, tools = [], onText, signal }) => {
+      const config: GenerateContentConfig = {
+        systemInstruction,
+        abortSignal: signal,
+        tools: tools.length > 0
+          ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+          : undefined
+      };
+      // Turning function calling off for the last round forces a written answer
+      const finalConfig: GenerateContentConfig = { ...config, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } };
+      const chat = ai.chats.create({
+        model,
+        config,
+        history: history.map(h => ({
+          role: h.role,
+          parts: [{ text: h.text }]
+        }))
+      });
+
+      const toolCalls: ToolCall[] = [];
+      let text = '';
+      let next: SendMessageParameters['message'] = message;
+
+      for (let round = 0; ; round++) {
+        const calls: FunctionCall[] = [];
+        const last = round >= MAX_TOOL_ROUNDS;
+        for await (const chunk of await chat.sendMessageStream({ message: next, config: last ? finalConfig : undefined })) {
+          signal?.throwIfAborted();
+          if (chunk.text) {
+            text += chunk.text;
+            onText?.(text);
+          }
+          calls.push(...(chunk.functionCalls || []));
+        }
+        signal?.throwIfAborted();
+        if (calls.length === 0 || last) return { text, toolCalls };
+
+        next = calls.map(call => {
+          const toolCall = { name: call.name || '', args: call.args || {} };
+          toolCalls.push(toolCall);
+          return { functionResponse: { id: call.id, name: call.name, response: { result: runTool(tools, toolCall) } } };
+        });
+      }
+    }
+  };
+};
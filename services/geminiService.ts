@@ -1,8 +1,55 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { ParsedDataResponse, HealthMetric } from "../types";
+import { ParsedDataResponse, HealthMetric, NormalizedMetric, GeneticResult, Profile, UnitSystem } from "../types";
+import { convertUnit, convertRangeText, findAnalyte, isSameUnit } from "./unitConversion";
+import { getBiomarker, preferredUnit, resolveBiomarker } from "./biomarkerCatalog";
+import { parseReferenceRange, convertRanges } from "./referenceRanges";
+import { describeProfile, getRangeSubject } from "./profiles";
+import { createAdvisorTools } from "./advisorTools";
+import { DEFAULT_TOLERANCE_DAYS, computeCorrelations, describeCorrelation, topCorrelations } from "./correlations";
+import { AiAttachment, ChatReply, ChatRequest, ChatTurn, JsonSchema, getTaskModel } from "./aiProvider";
 
-export const parseHealthData = async (input: string | { mimeType: string; data: string }): Promise<ParsedDataResponse> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const EXTRACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    metrics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          value: { type: 'number' },
+          unit: { type: 'string' },
+          category: { type: 'string' },
+          date: { type: 'string' },
+          referenceRange: { type: 'string' },
+          status: { type: 'string' },
+          page: { type: 'integer' },
+          snippet: { type: 'string' },
+        },
+        required: ["name", "value", "unit", "date", "status"]
+      }
+    }
+  }
+};
+
+const MATCHES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    matches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          existingId: { type: 'string' },
+        },
+        required: ["index", "existingId"]
+      }
+    }
+  }
+};
+
+export const parseHealthData = async (input: string | AiAttachment): Promise<ParsedDataResponse> => {
+  const { provider, model } = getTaskModel('extraction');
 
   const prompt = `
     You are a specialized medical data extraction assistant. 
@@ -10,6 +57,7 @@ export const parseHealthData = async (input: string | { mimeType: string; data:
     Identify the Test Name, the Value (number), the Unit, the Collection Date (ISO format YYYY-MM-DD), the Reference Range, and the Status (Normal, High, Low).
     
     If the date is not explicitly found next to the result, look for a global "Collection Date" or "Date" in the header.
+    For each result also give the Page it appears on (1-based, for attached documents) and the Snippet: the line of source text it was read from, copied verbatim.
     Categorize them into: 
     - Blood
     - Urine
@@ -23,67 +71,24 @@ export const parseHealthData = async (input: string | { mimeType: string; data:
     Return the data in a strict JSON structure.
   `;
 
-  const parts: any[] = [{ text: prompt }];
-
-  if (typeof input === 'string') {
-    parts.push({ text: input });
-  } else {
-    // For binary files like PDF
-    parts.push({ 
-      inlineData: { 
-        mimeType: input.mimeType, 
-        data: input.data 
-      } 
-    });
-  }
-
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: [
-      { role: 'user', parts: parts }
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          metrics: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                value: { type: Type.NUMBER },
-                unit: { type: Type.STRING },
-                category: { type: Type.STRING },
-                date: { type: Type.STRING },
-                referenceRange: { type: Type.STRING },
-                status: { type: Type.STRING },
-              },
-              required: ["name", "value", "unit", "date", "status"]
-            }
-          }
-        }
-      }
-    }
+  const response = await provider.generateJson<ParsedDataResponse>({
+    task: 'extraction',
+    model,
+    prompt,
+    input,
+    schema: EXTRACTION_SCHEMA
   });
 
-  if (response.text) {
-    return JSON.parse(response.text) as ParsedDataResponse;
-  }
-  throw new Error("Failed to parse data");
+  if (!Array.isArray(response?.metrics)) throw new Error("Failed to parse data");
+  return response;
 };
 
-export const normalizeHealthData = async (
-  newMetrics: ParsedDataResponse['metrics'], 
+// Asks the model which existing metric (if any) each new metric corresponds to
+const proposeMatches = async (
+  newSummary: { index: number; name: string; unit: string }[],
   existingMetrics: HealthMetric[]
-): Promise<ParsedDataResponse['metrics']> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // If we have no existing data, no need to normalize against anything
-  if (existingMetrics.length === 0) {
-    return newMetrics;
-  }
+): Promise<{ index: number; existingId: string }[]> => {
+  const { provider, model } = getTaskModel('matching');
 
   const existingSummary = existingMetrics.map(m => ({
     id: m.id,
@@ -92,104 +97,175 @@ export const normalizeHealthData = async (
   }));
 
   const prompt = `
-    You are an expert medical data analyst and unit converter.
+    You are an expert medical data analyst.
     
     Your Task:
     Compare the "New Metrics" against the "Existing Metrics" database.
-    1. Identify matches where the biological marker is the same, even if the name differs (e.g. "WBC" == "White Blood Cell Count", "Vitamin D3" == "25-OH Vitamin D").
-    2. If a match is found, check if the Units are different.
-    3. If Units differ, mathematically CONVERT the 'New Metric' value to the 'Existing Metric' unit.
-    4. If a match is found, rename the 'New Metric' to the 'Existing Metric' name and use the 'Existing Metric' unit.
-    5. If no match is found, keep the New Metric as is.
+    Identify matches where the biological marker is the same, even if the name differs (e.g. "WBC" == "White Blood Cell Count", "Vitamin D3" == "25-OH Vitamin D").
+    Do NOT convert any values or units.
+    Only return a match when you are confident it is the same marker measured in the same specimen.
 
     Existing Metrics Database:
     ${JSON.stringify(existingSummary)}
 
     New Metrics to Process:
-    ${JSON.stringify(newMetrics)}
+    ${JSON.stringify(newSummary)}
 
-    Return the processed list of New Metrics (with names/values/units adjusted to match existing database where applicable).
-    Structure the output exactly like the input 'New Metrics' list.
+    Return a list of matches, each with the new metric's "index" and the matching existing metric's "existingId".
   `;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
-    contents: [
-      { role: 'user', parts: [{ text: prompt }] }
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          metrics: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                value: { type: Type.NUMBER },
-                unit: { type: Type.STRING },
-                category: { type: Type.STRING },
-                date: { type: Type.STRING },
-                referenceRange: { type: Type.STRING },
-                status: { type: Type.STRING },
-              },
-              required: ["name", "value", "unit", "date", "status"]
-            }
-          }
-        }
-      }
-    }
+  try {
+    const response = await provider.generateJson<{ matches?: { index: number; existingId: string }[] }>({
+      task: 'matching',
+      model,
+      prompt,
+      schema: MATCHES_SCHEMA
+    });
+    return response?.matches || [];
+  } catch (error) {
+    // Fallback: continue with catalog and exact name matches only if AI fails
+    console.error(error);
+  }
+  return [];
+};
+
+// Metrics may arrive pre-resolved (canonicalId, ranges) from deterministic importers such as FHIR,
+// which also pass useAi: false so nothing leaves the browser.
+export const normalizeHealthData = async (
+  newMetrics: NormalizedMetric[], 
+  existingMetrics: HealthMetric[],
+  options: { useAi?: boolean; units?: UnitSystem } = {}
+): Promise<NormalizedMetric[]> => {
+  const { useAi = true, units = 'conventional' } = options;
+  const existingCanonicalIds = existingMetrics.map(m => m.canonicalId || resolveBiomarker(m.name)?.id);
+  const matches = new Map<number, HealthMetric>();
+
+  // Step 1: Resolve deterministically against the biomarker catalog and exact names
+  const definitions = newMetrics.map((metric, index) => {
+    const definition = getBiomarker(metric.canonicalId) || resolveBiomarker(metric.name);
+    const existing =
+      (definition && existingMetrics.find((_, i) => existingCanonicalIds[i] === definition.id)) ||
+      existingMetrics.find(m => m.name.toLowerCase() === metric.name.toLowerCase());
+    if (existing) matches.set(index, existing);
+    return definition;
   });
 
-  if (response.text) {
-    const result = JSON.parse(response.text);
-    return result.metrics;
+  // Step 2: AI fallback only for metrics that could not be placed
+  const unmatched = newMetrics
+    .map((m, index) => ({ index, name: m.name, unit: m.unit }))
+    .filter(m => !matches.has(m.index));
+
+  if (useAi && unmatched.length > 0 && existingMetrics.length > 0) {
+    const proposed = await proposeMatches(unmatched, existingMetrics);
+    proposed.forEach(p => {
+      const i = existingMetrics.findIndex(m => m.id === p.existingId);
+      if (i < 0 || matches.has(p.index)) return;
+      // The catalog wins when both sides are known markers
+      const definition = definitions[p.index];
+      if (definition && existingCanonicalIds[i] && existingCanonicalIds[i] !== definition.id) return;
+      matches.set(p.index, existingMetrics[i]);
+    });
   }
-  
-  // Fallback: return original if AI fails
-  return newMetrics;
+
+  // Step 3: Convert into the existing metric's unit, or the profile's preferred unit for new metrics
+  return newMetrics.map((metric, index) => {
+    const definition = definitions[index];
+    const existing = matches.get(index);
+    const existingCanonicalId = existing && existingCanonicalIds[existingMetrics.indexOf(existing)];
+
+    const resolved: NormalizedMetric = {
+      ...metric,
+      canonicalId: existingCanonicalId || definition?.id || metric.canonicalId,
+      name: existing?.name || definition?.name || metric.name,
+      category: definition?.category || metric.category,
+      ranges: metric.ranges ?? parseReferenceRange(metric.referenceRange, metric.unit)
+    };
+
+    const targetUnit = existing ? existing.latestUnit : definition && preferredUnit(definition, units);
+    if (targetUnit === undefined) return resolved;
+    if (isSameUnit(metric.unit, targetUnit)) return { ...resolved, unit: targetUnit };
+
+    const analyteId = definition?.analyte || findAnalyte(resolved.name)?.id || findAnalyte(metric.name)?.id;
+    const conversion = convertUnit(metric.value, metric.unit, targetUnit, analyteId);
+
+    if (conversion.error) {
+      // A brand new metric has nothing to conflict with, so it keeps its reported unit
+      return existing ? { ...resolved, conversionError: conversion.error } : resolved;
+    }
+
+    return {
+      ...resolved,
+      value: conversion.value,
+      unit: conversion.unit,
+      referenceRange: convertRangeText(metric.referenceRange, metric.unit, targetUnit, analyteId) ?? '',
+      ranges: convertRanges(resolved.ranges || [], metric.unit, targetUnit, analyteId) ?? [],
+      originalValue: metric.value,
+      originalUnit: metric.unit
+    };
+  });
 };
 
 export const getHolisticAdvice = async (
   query: string, 
   healthData: HealthMetric[], 
-  history: {role: string, text: string}[]
-) => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+  history: ChatTurn[],
+  geneticResults: GeneticResult[] = [],
+  profile?: Profile,
+  stream: Pick<ChatRequest, 'onText' | 'signal'> = {}
+): Promise<ChatReply> => {
+  const { provider, model } = getTaskModel('chat');
+
   // Create a concise summary of the user's current health profile
   const profileSummary = healthData.map(m => 
-    `- ${m.name}: ${m.latestValue} ${m.latestUnit} (${m.status}) on ${m.latestDate}`
+    `- ${m.name}: ${m.latestValue} ${m.latestUnit} (${m.status}) on ${m.latestDate}${m.target ? ` [personal target ${m.target.text} ${m.target.unit}]` : ''}${m.derived ? ` [calculated: ${m.derived.formula}]` : ''}`
   ).join('\n');
 
+  const geneticSummary = geneticResults.map(r =>
+    `- ${r.name} (${r.rsids.join(', ')}): ${r.genotype}. ${r.interpretation}`
+  ).join('\n') || 'None uploaded.';
+
+  // Computed here so the advisor can back its correlations with the user's own numbers
+  const correlationSummary = topCorrelations(computeCorrelations(healthData)).map(r => `- ${describeCorrelation(r)}`).join('\n')
+    || 'None strong enough in the data yet.';
+
+  const about = profile
+    ? [`Name: ${profile.name}`, describeProfile(profile)].filter(Boolean).join('. ')
+    : 'Not provided.';
+
   const systemInstruction = `
     You are a world-class functional medicine doctor and holistic health AI.
     You have access to the user's comprehensive health data including blood work, hormones, body composition (dexa), and wearables.
     
     Rules:
     1. ALWAYS reference specific biomarkers from the user's data to support your arguments.
-    2. Correlate different data points (e.g., Low Vitamin D with Hormonal imbalances, or Body Fat % with metabolic markers).
+    2. Correlate different data points (e.g., Low Vitamin D with Hormonal imbalances, or Body Fat % with metabolic markers). Where the computed correlations below cover a pair, cite them with their sample size and treat them as associations, not causes.
     3. Provide actionable, science-backed advice citing recent literature where possible.
     4. Be empathetic but objective.
     5. If a metric is out of range, explain potential causes and lifestyle interventions.
+    6. Treat genetic variants as predispositions that shape how to read the biomarkers, never as diagnoses.
+    7. Take the patient's sex and age into account when judging whether a value is typical.
+    8. The profile below only shows the latest values. Use the tools to look up earlier readings, trends and specific dates, and quote the values they return rather than estimating.
+    9. Metrics marked [calculated] are computed from other readings. Say so when you cite one, and mention the inputs it came from.
     
-    Current Patient Data Profile:
+    Patient:
+    ${about}
+
+    Current Patient Data Profile (latest values):
     ${profileSummary}
+
+    Genetic Variants:
+    ${geneticSummary}
+
+    Correlations in the Patient's Own Data (readings paired within ${DEFAULT_TOLERANCE_DAYS} days):
+    ${correlationSummary}
   `;
 
-  const chat = ai.chats.create({
-    model: 'gemini-3-pro-preview',
-    config: {
-      systemInstruction: systemInstruction,
-    },
-    history: history.map(h => ({
-      role: h.role,
-      parts: [{ text: h.text }]
-    }))
+  return provider.chat({
+    model,
+    systemInstruction,
+    history,
+    message: query,
+    tools: createAdvisorTools(healthData, getRangeSubject(profile)),
+    ...stream
   });
-
-  const result = await chat.sendMessage({ message: query });
-  return result.text;
-};
\ No newline at end of file
+};
@@ -0,0 +1,31 @@
+import { GenomeImportResult } from "./genomeParser";
+import type { GenomeWorkerMessage } from "./genomeImport.worker";
+
+export { GENOME_FORMAT_LABELS, detectGenomeFormat } from "./genomeParser";
+export type { GenomeFormat } from "./genomeParser";
+
+// Parses a raw genome file in a dedicated worker and resolves with the panel calls
+export const importGenomeFile = (
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<GenomeImportResult> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./genomeImport.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<GenomeWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The import worker failed.'));
+    };
+
+    worker.postMessage({ file });
+  });
@@ -0,0 +1,25 @@
+import { GenomeImportResult, parseGenomeFile } from "./genomeParser";
+
+// Scans raw genome files off the main thread.
+
+export type GenomeWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: GenomeImportResult }
+  | { type: 'error'; message: string };
+
+const post = (message: GenomeWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<{ file: File }>) => {
+  let lastReported = 0;
+
+  try {
+    const result = await parseGenomeFile(event.data.file, fraction => {
+      if (fraction - lastReported < 0.01 && fraction < 1) return;
+      lastReported = fraction;
+      post({ type: 'progress', fraction });
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
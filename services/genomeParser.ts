@@ -0,0 +1,65 @@
+import { GeneticResult } from "../types";
+import { ProgressCallback, streamLines } from "./fileStream";
+import { PANEL_RSIDS, SNP_PANEL } from "./snpPanel";
+
+// Local parser for raw genotype downloads. Files run to hundreds of thousands of lines,
+// but only the rsids in the bundled panel are kept.
+
+export type GenomeFormat = '23andme' | 'ancestrydna';
+
+export const GENOME_FORMAT_LABELS: Record<GenomeFormat, string> = {
+  '23andme': '23andMe',
+  'ancestrydna': 'AncestryDNA',
+};
+
+export interface GenomeImportResult {
+  results: Omit<GeneticResult, 'date' | 'sourceDoc' | 'documentId'>[];
+  snpsRead: number;
+}
+
+export const detectGenomeFormat = async (file: File): Promise<GenomeFormat | null> => {
+  const head = await file.slice(0, 4096).text();
+
+  if (/AncestryDNA/i.test(head) || /^rsid\tchromosome\tposition\tallele1\tallele2/m.test(head)) return 'ancestrydna';
+  if (/23andMe/i.test(head) || /^rs\d+\t\w+\t\d+\t[ACGTDI-]{1,2}\s*$/m.test(head)) return '23andme';
+  return null;
+};
+
+// Sorted so "GA" and "AG" read the same; no-calls ("--", "00") are dropped
+const normalizeGenotype = (alleles: string) => {
+  const cleaned = alleles.toUpperCase().replace(/[^ACGT]/g, '');
+  return cleaned.length === 0 ? undefined : cleaned.split('').sort().join('');
+};
+
+export const parseGenomeFile = async (file: File, onProgress?: ProgressCallback): Promise<GenomeImportResult> => {
+  const genotypes: Record<string, string> = {};
+  let snpsRead = 0;
+
+  await streamLines(file, line => {
+    // Skips comments and the column header; 23andMe also has internal "i" ids
+    if (!/^(rs|i)\d/.test(line)) return;
+    // 23andMe: rsid, chromosome, position, genotype. AncestryDNA splits the genotype into two columns.
+    const [rsid, , , first, second = ''] = line.split(/[\t,]/).map(cell => cell.trim());
+    if (!first) return;
+    snpsRead++;
+
+    if (!PANEL_RSIDS.has(rsid)) return;
+    const genotype = normalizeGenotype(first + second);
+    if (genotype) genotypes[rsid] = genotype;
+  }, onProgress);
+
+  const results = SNP_PANEL.flatMap(entry => {
+    const call = entry.interpret(genotypes);
+    if (!call) return [];
+    return [{
+      id: entry.id,
+      gene: entry.gene,
+      name: entry.name,
+      rsids: entry.rsids,
+      description: entry.description,
+      ...call
+    }];
+  });
+
+  return { results, snpsRead };
+};
@@ -0,0 +1,134 @@
+import { MergeSummary, emptyMergeSummary } from "./metricMerge";
+import { describeAiError } from "./aiProvider";
+import { createId } from "./storage";
+
+// Imports a batch of files. Files are read and parsed a few at a time, but merged one at a
+// time in the order parsing finishes, so every import is normalized against the one before.
+
+export type ImportFileStatus = 'queued' | 'parsing' | 'retrying' | 'waiting' | 'normalizing' | 'merged' | 'skipped' | 'failed';
+
+export interface ImportQueueItem {
+  id: string;
+  file: File;
+  status: ImportFileStatus;
+  attempts: number; // attempts at the current step, parsing or merging
+  error?: string; // why the last attempt failed, or why the file was skipped
+  summary?: MergeSummary; // once merged
+}
+
+// Both steps are retried with backoff when they throw, unless the error comes from skipImport
+export interface ImportQueueHandlers<T> {
+  parse: (file: File) => Promise<T>;
+  merge: (file: File, parsed: T) => Promise<MergeSummary>;
+  onUpdate: (item: ImportQueueItem) => void;
+}
+
+export const MAX_CONCURRENT_IMPORTS = 2;
+export const MAX_IMPORT_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export const IMPORT_STATUS_LABELS: Record<ImportFileStatus, string> = {
+  queued: 'Queued',
+  parsing: 'Parsing',
+  retrying: 'Retrying',
+  waiting: 'Waiting to merge',
+  normalizing: 'Normalizing',
+  merged: 'Merged',
+  skipped: 'Skipped',
+  failed: 'Failed'
+};
+
+// 2s, 4s, 8s, ...
+export const retryDelay = (attempt: number) => RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+// Leaves a file out of the batch without retrying, e.g. one that was imported before
+export const skipImport = (reason: string) => Object.assign(new Error(reason), { name: 'SkipImport' });
+
+const isSkip = (error: unknown) => error instanceof Error && error.name === 'SkipImport';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createQueueItems = (files: File[]): ImportQueueItem[] =>
+  files.map(file => ({ id: createId(), file, status: 'queued', attempts: 0 }));
+
+// Resolves with the final state of every item once the whole batch is done
+export const runImportQueue = async <T>(
+  items: ImportQueueItem[],
+  { parse, merge, onUpdate }: ImportQueueHandlers<T>,
+  concurrency = MAX_CONCURRENT_IMPORTS
+): Promise<ImportQueueItem[]> => {
+  const results = items.map(item => ({ ...item, status: 'queued' as ImportFileStatus, attempts: 0, error: undefined, summary: undefined }));
+  const update = (index: number, patch: Partial<ImportQueueItem>) => {
+    results[index] = { ...results[index], ...patch };
+    onUpdate(results[index]);
+  };
+
+  let merging = Promise.resolve();
+  let next = 0;
+
+  // Resolves with the step's result, or null once the item has been skipped or has failed
+  const withRetries = async <R>(index: number, status: ImportFileStatus, step: () => Promise<R>): Promise<{ value: R } | null> => {
+    const { file } = results[index];
+    for (let attempt = 1; ; attempt++) {
+      update(index, { status, attempts: attempt, error: undefined });
+      try {
+        return { value: await step() };
+      } catch (error) {
+        if (isSkip(error)) {
+          update(index, { status: 'skipped', error: (error as Error).message });
+          return null;
+        }
+        console.error(`Failed to import ${file.name}`, error);
+        if (attempt >= MAX_IMPORT_ATTEMPTS) {
+          update(index, { status: 'failed', error: describeAiError(error) });
+          return null;
+        }
+        update(index, { status: 'retrying', error: describeAiError(error) });
+        await sleep(retryDelay(attempt));
+      }
+    }
+  };
+
+  const processItem = async (index: number) => {
+    const { file } = results[index];
+    const parsed = await withRetries(index, 'parsing', () => parse(file));
+    if (!parsed) return;
+
+    update(index, { status: 'waiting' });
+    // Later files wait while this one is retried, so merges still happen one after another
+    const merged = merging.then(async () => {
+      const summary = await withRetries(index, 'normalizing', () => merge(file, parsed.value));
+      if (summary) update(index, { status: 'merged', summary: summary.value });
+    });
+    merging = merged;
+    await merged;
+  };
+
+  const worker = async () => {
+    while (next < results.length) await processItem(next++);
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, results.length) }, worker));
+  return results;
+};
+
+// All merged files' summaries added together
+export const combineSummaries = (items: ImportQueueItem[]): MergeSummary =>
+  items.reduce((total, { summary }) => summary ? {
+    added: [...total.added, ...summary.added],
+    updated: [...total.updated, ...summary.updated],
+    rejected: [...total.rejected, ...summary.rejected],
+    conflicts: [...total.conflicts, ...summary.conflicts]
+  } : total, emptyMergeSummary());
+
+// e.g. "12 added, 3 updated" or the reason the file was not imported
+export const describeQueueItem = (item: ImportQueueItem) => {
+  if (item.status !== 'merged' || !item.summary) return item.error || IMPORT_STATUS_LABELS[item.status];
+  const { added, updated, rejected, conflicts } = item.summary;
+  const parts = [
+    added.length > 0 && `${added.length} added`,
+    updated.length > 0 && `${updated.length} updated`,
+    rejected.length > 0 && `${rejected.length} skipped`,
+    conflicts.length > 0 && `${conflicts.length} conflicts`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'Nothing new';
+};
@@ -0,0 +1,108 @@
+import { HealthMetric, MetricValue } from "../types";
+import { RangeSubject, getEffectiveRanges, selectRange } from "./referenceRanges";
+import { getTrendPoints } from "./trendAnalytics";
+
+// Puts several metrics on one time axis. Raw values need an axis per unit; z-scores and
+// percent-of-range put everything on a shared scale.
+
+export type ComparisonScale = 'axes' | 'zscore' | 'range';
+
+export const COMPARISON_SCALE_LABELS: Record<ComparisonScale, string> = {
+  axes: 'Actual values',
+  zscore: 'Z-score',
+  range: '% of range'
+};
+
+// Raw values only fit two axes
+export const MAX_AXIS_UNITS = 2;
+
+export interface ComparisonSeries {
+  metric: HealthMetric;
+  unit: string;
+  axis: 'left' | 'right';
+  points: MetricValue[];
+  skipped?: string; // why the metric cannot be drawn on this scale
+}
+
+export interface ComparisonRow {
+  time: number;
+  [metricId: string]: number;
+}
+
+export interface ComparisonData {
+  series: ComparisonSeries[];
+  rows: ComparisonRow[];
+  units: string[];
+}
+
+const toTime = (date: string) => new Date(date).getTime();
+
+// 0% is the lower bound and 100% the upper; with one bound the value is shown as a percentage of it
+const toRangeScale = (metric: HealthMetric, points: MetricValue[], subject?: RangeSubject) => {
+  const latest = points[points.length - 1];
+  const lab = latest && selectRange(getEffectiveRanges(latest, metric), 'lab', subject);
+  const low = lab?.low?.value;
+  const high = lab?.high?.value;
+  if (low !== undefined && high !== undefined && high > low) return (v: number) => ((v - low) / (high - low)) * 100;
+  if (high) return (v: number) => (v / high) * 100;
+  if (low) return (v: number) => (v / low) * 100;
+  return undefined;
+};
+
+const toZScore = (points: MetricValue[]) => {
+  const mean = points.reduce((sum, dp) => sum + dp.value, 0) / points.length;
+  const sd = Math.sqrt(points.reduce((sum, dp) => sum + (dp.value - mean) ** 2, 0) / points.length);
+  return (v: number) => sd === 0 ? 0 : (v - mean) / sd;
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export const buildComparisonData = (
+  metrics: HealthMetric[],
+  scale: ComparisonScale,
+  subject?: RangeSubject
+): ComparisonData => {
+  // Readings in another unit than the latest one would distort the line
+  const pointsById = new Map(metrics.map(m => [m.id, getTrendPoints(m)]));
+  const unitOf = (metric: HealthMetric) => {
+    const points = pointsById.get(metric.id)!;
+    return points.length > 0 ? points[points.length - 1].unit : metric.latestUnit;
+  };
+  const units = Array.from(new Set(metrics.map(unitOf)));
+  const byTime = new Map<number, ComparisonRow>();
+
+  const series = metrics.map((metric): ComparisonSeries => {
+    const points = pointsById.get(metric.id)!;
+    const unit = unitOf(metric);
+    const axis = units.indexOf(unit) === 0 ? 'left' : 'right';
+
+    let transform: ((v: number) => number) | undefined = v => v;
+    let skipped: string | undefined;
+    if (points.length === 0) {
+      skipped = 'No readings';
+    } else if (scale === 'axes' && units.indexOf(unit) >= MAX_AXIS_UNITS) {
+      skipped = `Only ${MAX_AXIS_UNITS} units fit on the axes; switch to a normalized scale`;
+    } else if (scale === 'range') {
+      transform = toRangeScale(metric, points, subject);
+      if (!transform) skipped = 'No reference range';
+    } else if (scale === 'zscore') {
+      transform = toZScore(points);
+    }
+
+    if (!skipped && transform) {
+      points.forEach(dp => {
+        const time = toTime(dp.date);
+        const row = byTime.get(time) || { time };
+        row[metric.id] = round(transform!(dp.value));
+        byTime.set(time, row);
+      });
+    }
+    return { metric, unit, axis, points, skipped };
+  });
+
+  return { series, units, rows: [...byTime.values()].sort((a, b) => a.time - b.time) };
+};
+
+// The reading in effect at a moment: the latest one on or before it
+export const readingAt = (points: MetricValue[], time: number) =>
+  [...points].reverse().find(dp => toTime(dp.date) <= time);
@@ -0,0 +1,113 @@
+import { HealthMetric, MetricCategory, MetricValue } from "../types";
+import { getBiomarker, resolveBiomarker } from "./biomarkerCatalog";
+import { convertRangeText, convertUnit, findAnalyte, isSameUnit } from "./unitConversion";
+import { parseReferenceRange, recalculateMetric } from "./referenceRanges";
+import { createId } from "./storage";
+
+// Manual entry and editing of data points, with the same unit rules as imports.
+
+// Form state is kept as text so half-typed values survive re-renders
+export interface DataPointInput {
+  date: string;
+  value: string;
+  unit: string;
+  referenceRange: string;
+  note: string;
+}
+
+export const toDataPointInput = (dp?: MetricValue, defaultUnit = ''): DataPointInput => ({
+  date: dp?.date || new Date().toISOString().split('T')[0],
+  value: dp ? String(dp.value) : '',
+  unit: dp?.unit || defaultUnit,
+  referenceRange: dp?.referenceRange || '',
+  note: dp?.note || ''
+});
+
+const analyteFor = (metric: Pick<HealthMetric, 'name' | 'canonicalId'>) =>
+  getBiomarker(metric.canonicalId)?.analyte || findAnalyte(metric.name)?.id;
+
+// Builds a point in the series unit; values entered in another unit are converted when safe
+export const buildDataPoint = (
+  input: DataPointInput,
+  metric?: Pick<HealthMetric, 'name' | 'canonicalId' | 'latestUnit'>,
+  previous?: MetricValue
+): { point?: MetricValue; error?: string } => {
+  const date = input.date.trim();
+  const value = parseFloat(input.value);
+  const unit = input.unit.trim();
+  const referenceRange = input.referenceRange.trim();
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) return { error: 'Enter a valid date.' };
+  if (!Number.isFinite(value)) return { error: 'Enter a numeric value.' };
+  if (!unit) return { error: 'Enter a unit.' };
+
+  const point: MetricValue = {
+    ...previous,
+    date,
+    value,
+    unit,
+    referenceRange,
+    note: input.note.trim() || undefined
+  };
+
+  const valueChanged = !previous || previous.value !== value || !isSameUnit(previous.unit, unit);
+  if (valueChanged) {
+    // A hand-entered value replaces whatever the source reported
+    point.reportedStatus = undefined;
+    point.originalValue = undefined;
+    point.originalUnit = undefined;
+  }
+  // Structured ranges (e.g. optimal bands from FHIR) survive as long as the range text is untouched
+  if (valueChanged || previous.referenceRange !== referenceRange) {
+    point.ranges = parseReferenceRange(referenceRange, unit);
+  }
+
+  const targetUnit = metric?.latestUnit;
+  if (!targetUnit || isSameUnit(unit, targetUnit)) return { point: { ...point, unit: targetUnit || unit } };
+
+  const analyteId = analyteFor(metric);
+  const conversion = convertUnit(value, unit, targetUnit, analyteId);
+  if (conversion.error) return { error: conversion.error };
+  // The form is prefilled with the stored range, which is already in the series unit
+  const rangeUnit = previous && referenceRange === (previous.referenceRange || '') ? previous.unit : unit;
+  const convertedRange = isSameUnit(rangeUnit, targetUnit)
+    ? referenceRange
+    : convertRangeText(referenceRange, rangeUnit, targetUnit, analyteId) ?? '';
+
+  return {
+    point: {
+      ...point,
+      value: conversion.value,
+      unit: conversion.unit,
+      referenceRange: convertedRange,
+      ranges: parseReferenceRange(convertedRange, targetUnit),
+      originalValue: value,
+      originalUnit: unit
+    }
+  };
+};
+
+// Adds a point, or replaces the one at `index`, then re-sorts and recomputes the latest fields
+export const saveDataPoint = (metric: HealthMetric, point: MetricValue, index?: number): HealthMetric =>
+  recalculateMetric({
+    ...metric,
+    dataPoints: index === undefined
+      ? [...metric.dataPoints, point]
+      : metric.dataPoints.map((dp, i) => i === index ? point : dp)
+  });
+
+export const createManualMetric = (name: string, category: MetricCategory, point: MetricValue): HealthMetric => {
+  const definition = resolveBiomarker(name);
+  return recalculateMetric({
+    id: createId(),
+    canonicalId: definition?.id,
+    name: name.trim(),
+    category,
+    dataPoints: [point],
+    latestValue: point.value,
+    latestUnit: point.unit,
+    latestDate: point.date,
+    status: 'Normal',
+    description: definition?.description
+  });
+};
@@ -0,0 +1,234 @@
+import { HealthMetric, MetricCategory, MetricValue, NormalizedMetric } from "../types";
+import { getBiomarker } from "./biomarkerCatalog";
+import { convertUnit, findAnalyte, isSameUnit } from "./unitConversion";
+import { convertRanges, getRanges, parseReferenceRange, parseStatus, recalculateMetric } from "./referenceRanges";
+import { createId } from "./storage";
+
+// Shared rules for folding incoming data into the existing metric set.
+
+export interface MergeConflict {
+  name: string;
+  date: string;
+  existing: string;
+  incoming: string;
+}
+
+export interface MergeSummary {
+  added: string[];
+  updated: string[];
+  rejected: { name: string; reason: string }[];
+  conflicts: MergeConflict[];
+}
+
+export const emptyMergeSummary = (): MergeSummary => ({ added: [], updated: [], rejected: [], conflicts: [] });
+
+// The same reading imported twice (same day, same value)
+export const isDuplicatePoint = (a: MetricValue, b: MetricValue) =>
+  a.date === b.date && a.value === b.value;
+
+export const findMatchingMetric = (
+  metrics: HealthMetric[],
+  candidate: { canonicalId?: string; name: string }
+): number =>
+  candidate.canonicalId
+    ? metrics.findIndex(m => m.canonicalId === candidate.canonicalId || m.name === candidate.name)
+    : metrics.findIndex(m => m.name === candidate.name);
+
+export type MergeAction = 'new' | 'update' | 'replace' | 'duplicate' | 'rejected';
+
+export interface MergePreview {
+  action: MergeAction;
+  matchName?: string; // existing metric the row would join
+  reason?: string;
+}
+
+const pointDate = (parsed: NormalizedMetric) => parsed.date || new Date().toISOString().split('T')[0];
+
+// What mergeParsedMetrics would do with a single row, for the import review screen
+export const previewParsedMetric = (
+  current: HealthMetric[],
+  parsed: NormalizedMetric,
+  options: { replaceSameDay?: boolean } = {}
+): MergePreview => {
+  if (parsed.conversionError) return { action: 'rejected', reason: parsed.conversionError };
+
+  const existingIndex = findMatchingMetric(current, parsed);
+  if (existingIndex < 0) return { action: 'new' };
+
+  const existing = current[existingIndex];
+  const matchName = existing.name;
+  if (!isSameUnit(parsed.unit, existing.latestUnit)) {
+    return { action: 'rejected', matchName, reason: `${parsed.unit} does not match ${existing.latestUnit}` };
+  }
+
+  const date = pointDate(parsed);
+  if (existing.dataPoints.some(dp => dp.date === date && dp.value === parsed.value)) return { action: 'duplicate', matchName };
+  if (options.replaceSameDay && existing.dataPoints.some(dp => dp.date === date)) return { action: 'replace', matchName };
+  return { action: 'update', matchName };
+};
+
+const addName = (names: string[], name: string) => {
+  if (!names.includes(name)) names.push(name);
+};
+
+// Merges freshly parsed and normalized rows from one source document.
+// Each touched metric is recalculated once at the end, so large wearable imports stay fast.
+// Daily aggregates pass replaceSameDay, since a newer export recomputes days that were still in progress.
+export const mergeParsedMetrics = (
+  current: HealthMetric[],
+  parsedMetrics: NormalizedMetric[],
+  source: { name: string; documentId?: string },
+  options: { replaceSameDay?: boolean } = {}
+): { metrics: HealthMetric[]; changed: HealthMetric[]; summary: MergeSummary } => {
+  const metrics = [...current];
+  const changedIds = new Set<string>();
+  const summary = emptyMergeSummary();
+
+  parsedMetrics.forEach(parsed => {
+    // Never merge a value into a series with a different unit
+    if (parsed.conversionError) {
+      summary.rejected.push({ name: parsed.name, reason: parsed.conversionError });
+      return;
+    }
+
+    const existingIndex = findMatchingMetric(metrics, parsed);
+    const definition = getBiomarker(parsed.canonicalId);
+
+    if (existingIndex >= 0 && !isSameUnit(parsed.unit, metrics[existingIndex].latestUnit)) {
+      summary.rejected.push({ name: parsed.name, reason: `${parsed.unit} does not match ${metrics[existingIndex].latestUnit}` });
+      return;
+    }
+
+    const newDataPoint: MetricValue = {
+      date: pointDate(parsed),
+      value: parsed.value,
+      unit: parsed.unit,
+      referenceRange: parsed.referenceRange,
+      ranges: parsed.ranges ?? parseReferenceRange(parsed.referenceRange, parsed.unit),
+      reportedStatus: parseStatus(parsed.status),
+      sourceDoc: source.name,
+      documentId: source.documentId,
+      originalValue: parsed.originalValue,
+      originalUnit: parsed.originalUnit,
+      page: parsed.page,
+      snippet: parsed.snippet
+    };
+
+    if (existingIndex >= 0) {
+      const existing = metrics[existingIndex];
+      if (existing.dataPoints.some(dp => isDuplicatePoint(dp, newDataPoint))) return;
+
+      // Copy on first touch so the caller's metrics are never mutated
+      metrics[existingIndex] = changedIds.has(existing.id)
+        ? existing
+        : {
+            ...existing,
+            dataPoints: [...existing.dataPoints],
+            canonicalId: existing.canonicalId || parsed.canonicalId,
+            description: existing.description || definition?.description
+          };
+      const points = metrics[existingIndex].dataPoints;
+      const sameDayIndex = options.replaceSameDay ? points.findIndex(dp => dp.date === newDataPoint.date) : -1;
+      if (sameDayIndex >= 0) points[sameDayIndex] = newDataPoint;
+      else points.push(newDataPoint);
+      changedIds.add(existing.id);
+      if (!summary.added.includes(existing.name)) addName(summary.updated, existing.name);
+    } else {
+      const id = createId();
+      changedIds.add(id);
+      metrics.push({
+        id,
+        canonicalId: parsed.canonicalId,
+        name: parsed.name,
+        category: (parsed.category as MetricCategory) || MetricCategory.Other,
+        dataPoints: [newDataPoint],
+        latestValue: parsed.value,
+        latestUnit: parsed.unit,
+        latestDate: newDataPoint.date,
+        status: newDataPoint.reportedStatus || 'Normal',
+        description: definition?.description
+      });
+      addName(summary.added, parsed.name);
+    }
+  });
+
+  const merged = metrics.map(m => changedIds.has(m.id) ? recalculateMetric(m) : m);
+  return { metrics: merged, changed: merged.filter(m => changedIds.has(m.id)), summary };
+};
+
+const convertPoint = (dp: MetricValue, toUnit: string, analyteId?: string): MetricValue | string => {
+  if (isSameUnit(dp.unit, toUnit)) return dp;
+
+  const conversion = convertUnit(dp.value, dp.unit, toUnit, analyteId);
+  if (conversion.error) return conversion.error;
+
+  return {
+    ...dp,
+    value: conversion.value,
+    unit: conversion.unit,
+    ranges: convertRanges(getRanges(dp), dp.unit, toUnit, analyteId) ?? [],
+    originalValue: dp.originalValue ?? dp.value,
+    originalUnit: dp.originalUnit ?? dp.unit
+  };
+};
+
+// Merges whole metrics (e.g. from a backup) into the current set without overwriting anything.
+// Points that match an existing reading are skipped; same-day points with a different value are reported as conflicts.
+export const mergeMetricSets = (
+  current: HealthMetric[],
+  incoming: HealthMetric[]
+): { metrics: HealthMetric[]; changed: HealthMetric[]; summary: MergeSummary } => {
+  const metrics = [...current];
+  const changedIds = new Set<string>();
+  const summary = emptyMergeSummary();
+
+  incoming.forEach(metric => {
+    const existingIndex = findMatchingMetric(metrics, metric);
+
+    if (existingIndex < 0) {
+      const id = metrics.some(m => m.id === metric.id) ? createId() : metric.id;
+      metrics.push(recalculateMetric({ ...metric, id }));
+      changedIds.add(id);
+      summary.added.push(metric.name);
+      return;
+    }
+
+    const existing = metrics[existingIndex];
+    const analyteId = getBiomarker(existing.canonicalId)?.analyte || findAnalyte(existing.name)?.id;
+    const added: MetricValue[] = [];
+
+    metric.dataPoints.forEach(dp => {
+      const converted = convertPoint(dp, existing.latestUnit, analyteId);
+      if (typeof converted === 'string') {
+        summary.rejected.push({ name: `${metric.name} (${dp.date})`, reason: converted });
+        return;
+      }
+      if (existing.dataPoints.some(p => isDuplicatePoint(p, converted))) return;
+
+      const sameDay = existing.dataPoints.find(p => p.date === converted.date);
+      if (sameDay) {
+        summary.conflicts.push({
+          name: existing.name,
+          date: converted.date,
+          existing: `${sameDay.value} ${sameDay.unit}`,
+          incoming: `${converted.value} ${converted.unit}`
+        });
+        return;
+      }
+      added.push(converted);
+    });
+
+    if (added.length > 0) {
+      metrics[existingIndex] = recalculateMetric({
+        ...existing,
+        dataPoints: [...existing.dataPoints, ...added],
+        canonicalId: existing.canonicalId || metric.canonicalId,
+        description: existing.description || metric.description
+      });
+      changedIds.add(existing.id);
+      summary.updated.push(existing.name);
+    }
+  });
+
+  return { metrics, changed: metrics.filter(m => changedIds.has(m.id)), summary };
+};
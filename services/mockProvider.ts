@@ -0,0 +1,89 @@
+import { AiProvider, AiTask, ToolCall, runTool } from "./aiProvider";
+
+// Deterministic stand-in for a model, for working offline and for reproducible runs.
+// The first fixture whose pattern matches the request text wins; every task has a catch-all.
+
+export interface MockFixture {
+  task: AiTask;
+  match?: RegExp; // tested against the prompt and input (or the chat message)
+  toolCalls?: ToolCall[]; // chat only: tools to call before answering
+  response: unknown | ((text: string, toolResults: unknown[]) => unknown);
+}
+
+const DEMO_DATE = '2024-01-15';
+const STREAM_DELAY_MS = 15; // per word, so streaming and stopping can be tried offline
+
+const demoMetric = (name: string, value: number, unit: string, category: string, referenceRange: string, snippet: string, status = 'Normal') =>
+  ({ name, value, unit, category, date: DEMO_DATE, referenceRange, status, snippet });
+
+export const DEFAULT_FIXTURES: MockFixture[] = [
+  // The demo report on the import screen
+  {
+    task: 'extraction',
+    match: /TESTOSTERONE, TOTAL, MS 427/,
+    response: {
+      metrics: [
+        demoMetric('Testosterone, Total, MS', 427, 'ng/dL', 'Hormones', '250-1100', 'TESTOSTERONE, TOTAL, MS 427 ng/dL (Range: 250-1100)'),
+        demoMetric('Testosterone, Free', 102, 'pg/mL', 'Hormones', '35.0-155.0', 'TESTOSTERONE, FREE 102.0 pg/mL (Range: 35.0-155.0)'),
+        demoMetric('Homocysteine', 8.9, 'umol/L', 'Blood', '< 12.9', 'HOMOCYSTEINE 8.9 umol/L (Range: < 12.9)'),
+        demoMetric('Vitamin D, 25-OH, Total', 20, 'ng/mL', 'Vitamins', '30-100', 'VITAMIN D, 25-OH, TOTAL 20 ng/mL (Low) (Range: 30-100)', 'Low'),
+        demoMetric('TSH', 2.76, 'mIU/L', 'Hormones', '0.40-4.50', 'TSH 2.76 mIU/L (Range: 0.40-4.50)'),
+        demoMetric('LDL Cholesterol', 105, 'mg/dL', 'Blood', '<100', 'LDL CHOLESTEROL 105 mg/dL (High) (Range: <100)', 'High'),
+        demoMetric('Apolipoprotein B', 79, 'mg/dL', 'Blood', 'Optimal <90', 'APOLIPOPROTEIN B 79 mg/dL (Optimal <90)'),
+        demoMetric('HbA1c', 5.1, '%', 'Blood', '<5.7', 'HBA1C 5.1 % (Range: <5.7)'),
+        demoMetric('CRP, HS', 0.3, 'mg/L', 'Blood', 'Optimal <1.0', 'CRP, HS 0.3 mg/L (Optimal <1.0)'),
+        demoMetric('Ferritin', 91, 'ng/mL', 'Blood', '38-380', 'FERRITIN 91 ng/mL (Range: 38-380)'),
+        demoMetric('Body Fat', 18.5, '%', 'Body', '10-20', 'Body Fat 18.5 % (Range: 10-20)'),
+        demoMetric('Lean Muscle Mass', 165, 'lbs', 'Body', '', 'Lean Muscle Mass 165 lbs (Normal)'),
+      ]
+    }
+  },
+  { task: 'extraction', response: { metrics: [] } },
+  { task: 'matching', response: { matches: [] } },
+  {
+    task: 'chat',
+    match: /out of range|flagged|abnormal/i,
+    toolCalls: [{ name: 'getOutOfRange', args: {} }],
+    response: (_: string, [result]: any[]) =>
+      `You have ${result?.metrics?.length ?? 0} metrics outside their reference range.`
+  },
+  { task: 'chat', response: (message: string) => `This is the offline mock advisor. You asked: "${message.trim()}"` },
+];
+
+export const createMockProvider = (fixtures: MockFixture[] = DEFAULT_FIXTURES): AiProvider => {
+  const findFixture = (task: AiTask, text: string) => {
+    const fixture = fixtures.find(f => f.task === task && (!f.match || f.match.test(text)));
+    if (!fixture) throw new Error(`No mock fixture for ${task}`);
+    return fixture;
+  };
+
+  const respond = (fixture: MockFixture, text: string, toolResults: unknown[] = []) => {
+    const response = typeof fixture.response === 'function' ? fixture.response(text, toolResults) : fixture.response;
+    // Hand out copies so callers can never change a fixture
+    return JSON.parse(JSON.stringify(response));
+  };
+
+  return {
+    generateJson: async ({ task, prompt, input }) => {
+      const text = typeof input === 'string' ? `${prompt}\n${input}` : prompt;
+      return respond(findFixture(task, text), text);
+    },
+
+    chat: async ({ message, tools = [], onText, signal }) => {
+      const fixture = findFixture('chat', message);
+      // Tools the conversation does not offer are skipped, as a real model could not call them either
+      const toolCalls = (fixture.toolCalls || []).filter(call => tools.some(t => t.name === call.name));
+      const toolResults = toolCalls.map(call => runTool(tools, call));
+      const words = String(respond(fixture, message, toolResults)).split(/(?<=\s)/);
+
+      let text = '';
+      for (const word of words) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        signal?.throwIfAborted();
+        text += word;
+        onText?.(text);
+      }
+      return { text, toolCalls };
+    }
+  };
+};
@@ -0,0 +1,125 @@
+import { AiProvider, MAX_TOOL_ROUNDS, ToolCall, parseJsonText, runTool } from "./aiProvider";
+
+// Talks to any server with an OpenAI-style /chat/completions endpoint: Ollama, llama.cpp, LM Studio, vLLM.
+
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey?: string): AiProvider => {
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`The AI server responded with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  const complete = async (body: Record<string, unknown>): Promise<any> => {
+    const data = await (await post(body)).json();
+    return data.choices?.[0]?.message || {};
+  };
+
+  // Reads a server-sent event stream and assembles the message, including tool calls sent in pieces
+  const completeStreaming = async (body: Record<string, unknown>, signal?: AbortSignal, onContent?: (content: string) => void) => {
+    const response = await post({ ...body, stream: true }, signal);
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    const message = { content: '', tool_calls: [] as any[] };
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      lines.forEach(line => {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta || {};
+        if (delta.content) {
+          message.content += delta.content;
+          onContent?.(message.content);
+        }
+        (delta.tool_calls || []).forEach((part: any) => {
+          const call = message.tool_calls[part.index ?? 0] ||= { id: part.id, type: 'function', function: { name: '', arguments: '' } };
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.function.name += part.function.name;
+          if (part.function?.arguments) call.function.arguments += part.function.arguments;
+        });
+      });
+    }
+    return message;
+  };
+
+  return {
+    generateJson: async ({ task, model, prompt, input, schema }) => {
+      const content: any[] = [
+        // Not every server enforces response_format, so the schema is spelled out as well
+        { type: 'text', text: `${prompt}\n\nRespond only with JSON matching this schema:\n${JSON.stringify(schema)}` }
+      ];
+      if (typeof input === 'string') {
+        content.push({ type: 'text', text: input });
+      } else if (input) {
+        if (!input.mimeType.startsWith('image/')) {
+          throw new Error(`This AI server cannot read ${input.mimeType} files. Paste the report text instead.`);
+        }
+        content.push({ type: 'image_url', image_url: { url: `data:${input.mimeType};base64,${input.data}` } });
+      }
+
+      const { content: text } = await complete({
+        model,
+        messages: [{ role: 'user', content }],
+        response_format: { type: 'json_schema', json_schema: { name: task, schema } },
+        temperature: 0
+      });
+      if (!text) throw new Error("The model returned an empty response");
+      return parseJsonText(text);
+    },
+
+    chat: async ({ model, systemInstruction, history, message, tools = [], onText, signal }) => {
+      const messages: any[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map(h => ({ role: h.role === 'model' ? 'assistant' : 'user', content: h.text })),
+        { role: 'user', content: message }
+      ];
+      const toolSpecs = tools.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: t.parameters }
+      }));
+      const toolCalls: ToolCall[] = [];
+      let text = '';
+
+      for (let round = 0; ; round++) {
+        const written = text;
+        const reply = await completeStreaming({
+          model,
+          messages,
+          // Leaving tools out of the last round forces a written answer
+          ...(toolSpecs.length > 0 && round < MAX_TOOL_ROUNDS ? { tools: toolSpecs } : {})
+        }, signal, content => onText?.(written + content));
+        text = written + reply.content;
+        if (!reply.tool_calls.length) return { text, toolCalls };
+
+        messages.push({ role: 'assistant', content: reply.content || null, tool_calls: reply.tool_calls });
+        reply.tool_calls.forEach((call: any) => {
+          let args: Record<string, unknown> = {};
+          try {
+            args = JSON.parse(call.function.arguments || '{}');
+          } catch {
+            // Small models sometimes emit broken JSON; the tool reports what is missing
+          }
+          const toolCall = { name: call.function.name, args };
+          toolCalls.push(toolCall);
+          messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(runTool(tools, toolCall)) });
+        });
+      }
+    }
+  };
+};
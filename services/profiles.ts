@@ -0,0 +1,57 @@
+import { Profile } from "../types";
+import { RangeSubject } from "./referenceRanges";
+import { ACTIVE_PROFILE_KEY, createId, profilesRepository, setActiveProfile, settingsRepository } from "./storage";
+
+// Family member profiles. Exactly one is active at a time and scopes every data repository.
+
+export const loadProfiles = async (): Promise<{ profiles: Profile[]; active: Profile }> => {
+  const [profiles, savedId] = await Promise.all([
+    profilesRepository.list(),
+    settingsRepository.get<string>(ACTIVE_PROFILE_KEY)
+  ]);
+
+  // The v5 migration creates a default profile, so this only happens if every profile was removed
+  if (profiles.length === 0) {
+    const profile = createProfile({ name: 'Me' });
+    await profilesRepository.save(profile);
+    profiles.push(profile);
+  }
+
+  const active = profiles.find(p => p.id === savedId) || profiles[0];
+  await switchProfile(active.id);
+  return { profiles, active };
+};
+
+export const switchProfile = async (id: string) => {
+  setActiveProfile(id);
+  await settingsRepository.set(ACTIVE_PROFILE_KEY, id);
+};
+
+export const createProfile = (fields: Partial<Profile> & { name: string }): Profile => ({
+  units: 'conventional',
+  ...fields,
+  id: createId(),
+  createdAt: Date.now()
+});
+
+export const getAge = (birthDate?: string, on = new Date()): number | undefined => {
+  if (!birthDate) return undefined;
+  const birth = new Date(birthDate);
+  if (isNaN(birth.getTime())) return undefined;
+
+  let age = on.getFullYear() - birth.getFullYear();
+  const beforeBirthday = on.getMonth() < birth.getMonth() ||
+    (on.getMonth() === birth.getMonth() && on.getDate() < birth.getDate());
+  if (beforeBirthday) age--;
+  return age >= 0 ? age : undefined;
+};
+
+// Sex and age pick the matching sex- and age-specific reference ranges
+export const getRangeSubject = (profile?: Profile | null): RangeSubject | undefined =>
+  profile ? { sex: profile.sex, age: getAge(profile.birthDate), birthDate: profile.birthDate } : undefined;
+
+export const describeProfile = (profile: Profile) =>
+  [
+    profile.sex === 'male' ? 'Male' : profile.sex === 'female' ? 'Female' : undefined,
+    getAge(profile.birthDate) !== undefined ? `${getAge(profile.birthDate)} years old` : undefined
+  ].filter(Boolean).join(', ');
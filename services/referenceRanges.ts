@@ -0,0 +1,225 @@
+import { HealthMetric, MetricStatus, MetricValue, PersonalTarget, RangeBound, ReferenceRange } from "../types";
+import { convertUnit } from "./unitConversion";
+import { getBiomarker } from "./biomarkerCatalog";
+
+// Structured reference ranges and the single place metric status is decided.
+
+export interface RangeSubject {
+  sex?: 'male' | 'female';
+  age?: number; // today
+  birthDate?: string; // for the age at the time of an older reading
+}
+
+const NUMBER = '-?\\d+(?:\\.\\d+)?';
+const BETWEEN = new RegExp(`(${NUMBER})\\s*(?:-|–|—|to)\\s*(${NUMBER})`, 'i');
+const COMPARATOR = new RegExp(
+  `(<=|≤|=<|<|>=|≥|=>|>|less than|under|below|up to|at most|greater than|above|over|at least)\\s*(${NUMBER})`,
+  'i'
+);
+const AGE_SPAN = /(?:age[sd]?\s*)?(\d+)\s*(?:-|to)\s*(\d+)\s*(?:y|yo|yr|yrs|years?)\b|ages?\s*(\d+)\s*(?:-|to)\s*(\d+)/i;
+const AGE_MIN = /(?:>=|≥|>|over|age\s*)\s*(\d+)\s*(?:y|yo|yr|yrs|years?)\b/i;
+const AGE_MAX = /(?:<=|≤|<|under)\s*(\d+)\s*(?:y|yo|yr|yrs|years?)\b/i;
+
+// Whole words, or a lone letter used as a label: "F: 12-150", "(M) 30-400", "M 30-400"
+const FEMALE = /\b(?:females?|wom[ae]n)\b|(?:^|[\s(,;])F(?:\s*[:)]|\s+(?=[<>≤≥\d]))/i;
+const MALE = /\b(?:males?|m[ae]n)\b|(?:^|[\s(,;])M(?:\s*[:)]|\s+(?=[<>≤≥\d]))/i;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseSegment = (segment: string, unit?: string): ReferenceRange | null => {
+  let text = segment;
+  const range: ReferenceRange = {
+    kind: /optimal|ideal|desirable|target/i.test(text) ? 'optimal' : 'lab'
+  };
+
+  // Units can contain digits ("10^3/uL", "mL/min/1.73m2") or look like sex markers ("°F", "m"),
+  // so drop them before reading anything else
+  if (unit) text = text.replace(new RegExp(`(?<![a-z])${escapeRegExp(unit)}(?![a-z])`, 'gi'), ' ');
+  text = text.replace(/\S*\^\S*/g, ' ').replace(/1\.73\s*m2/gi, ' ').replace(/°\s*[CF]\b/gi, ' ');
+
+  if (FEMALE.test(text)) range.sex = 'female';
+  else if (MALE.test(text)) range.sex = 'male';
+
+  const span = text.match(AGE_SPAN);
+  if (span) {
+    range.minAge = Number(span[1] ?? span[3]);
+    range.maxAge = Number(span[2] ?? span[4]);
+    text = text.replace(span[0], ' ');
+  } else {
+    const min = text.match(AGE_MIN);
+    if (min) {
+      range.minAge = Number(min[1]);
+      text = text.replace(min[0], ' ');
+    }
+    const max = text.match(AGE_MAX);
+    if (max) {
+      range.maxAge = Number(max[1]);
+      text = text.replace(max[0], ' ');
+    }
+  }
+
+  const between = text.match(BETWEEN);
+  if (between) {
+    const low = parseFloat(between[1]);
+    const high = parseFloat(between[2]);
+    if (low > high) return null;
+    range.low = { value: low, inclusive: true };
+    range.high = { value: high, inclusive: true };
+    return range;
+  }
+
+  const comparator = text.match(COMPARATOR);
+  if (comparator) {
+    const op = comparator[1].toLowerCase();
+    const bound: RangeBound = {
+      value: parseFloat(comparator[2]),
+      inclusive: ['<=', '≤', '=<', '>=', '≥', '=>', 'up to', 'at most', 'at least'].includes(op)
+    };
+    if (['<=', '≤', '=<', '<', 'less than', 'under', 'below', 'up to', 'at most'].includes(op)) {
+      range.high = bound;
+    } else {
+      range.low = bound;
+    }
+    return range;
+  }
+
+  return null;
+};
+
+// Parses free text like "30 - 100 ng/mL", "Optimal <90", "-2.0-2.0" or "Male: 250-1100; Female: 15-70"
+export const parseReferenceRange = (text?: string, unit?: string): ReferenceRange[] => {
+  if (!text) return [];
+
+  return text
+    .replace(/(\d),(\d{3})\b/g, '$1$2') // thousands separators
+    .split(/[;\n|]|,\s*(?=(?:female|male|women|men|optimal|ideal|desirable|lab|age)\b)|\s+(?=(?:female|male|women|men)\b|[mf]\s*:?\s*-?\d)/i)
+    .map(segment => parseSegment(segment, unit))
+    .filter((r): r is ReferenceRange => r !== null);
+};
+
+// Re-expresses every bound in another unit; undefined if any bound cannot be converted
+export const convertRanges = (
+  ranges: ReferenceRange[],
+  fromUnit: string,
+  toUnit: string,
+  analyteId?: string
+): ReferenceRange[] | undefined => {
+  let failed = false;
+  const convertBound = (bound?: RangeBound): RangeBound | undefined => {
+    if (!bound) return bound;
+    const result = convertUnit(bound.value, fromUnit, toUnit, analyteId);
+    if (result.error) failed = true;
+    return { ...bound, value: result.value };
+  };
+
+  const converted = ranges.map(r => ({ ...r, low: convertBound(r.low), high: convertBound(r.high) }));
+  return failed ? undefined : converted;
+};
+
+const isQualified = (r: ReferenceRange) =>
+  r.sex !== undefined || r.minAge !== undefined || r.maxAge !== undefined;
+
+const appliesTo = (r: ReferenceRange, subject?: RangeSubject) => {
+  if (r.sex && subject?.sex && r.sex !== subject.sex) return false;
+  if (subject?.age !== undefined) {
+    if (r.minAge !== undefined && subject.age < r.minAge) return false;
+    if (r.maxAge !== undefined && subject.age > r.maxAge) return false;
+  }
+  return true;
+};
+
+// A qualified range only counts as a confident match when the subject supplies what it is qualified on
+const isConfirmedFor = (r: ReferenceRange, subject?: RangeSubject) =>
+  (!r.sex || subject?.sex !== undefined) &&
+  ((r.minAge === undefined && r.maxAge === undefined) || subject?.age !== undefined);
+
+export const selectRange = (
+  ranges: ReferenceRange[],
+  kind: ReferenceRange['kind'],
+  subject?: RangeSubject
+): ReferenceRange | undefined => {
+  const candidates = ranges.filter(r => r.kind === kind && appliesTo(r, subject));
+
+  const specific = candidates.find(r => isQualified(r) && isConfirmedFor(r, subject));
+  if (specific) return specific;
+
+  const generic = candidates.find(r => !isQualified(r));
+  if (generic) return generic;
+
+  // Never guess between e.g. male and female ranges for an unknown subject
+  return candidates.length === 1 ? candidates[0] : undefined;
+};
+
+const isBelow = (value: number, bound?: RangeBound) =>
+  !!bound && (value < bound.value || (value === bound.value && !bound.inclusive));
+
+const isAbove = (value: number, bound?: RangeBound) =>
+  !!bound && (value > bound.value || (value === bound.value && !bound.inclusive));
+
+export const computeStatus = (
+  value: number,
+  ranges: ReferenceRange[],
+  subject?: RangeSubject,
+  fallback: MetricStatus = 'Normal'
+): MetricStatus => {
+  const lab = selectRange(ranges, 'lab', subject);
+  const optimal = selectRange(ranges, 'optimal', subject);
+
+  if (lab) {
+    if (isBelow(value, lab.low)) return 'Low';
+    if (isAbove(value, lab.high)) return 'High';
+  }
+  if (optimal) {
+    return isBelow(value, optimal.low) || isAbove(value, optimal.high) ? 'Borderline' : 'Optimal';
+  }
+  return lab ? 'Normal' : fallback;
+};
+
+// Maps the free-text status returned by parsers onto MetricStatus
+export const parseStatus = (status?: string): MetricStatus => {
+  const s = (status || '').toLowerCase();
+  if (s.includes('optimal')) return 'Optimal';
+  if (s.includes('borderline')) return 'Borderline';
+  if (s.includes('high') || s.includes('elevated')) return 'High';
+  if (s.includes('low')) return 'Low';
+  return 'Normal';
+};
+
+// Data saved before ranges were structured only has the text
+export const getRanges = (dp: MetricValue): ReferenceRange[] =>
+  dp.ranges ?? parseReferenceRange(dp.referenceRange, dp.unit);
+
+// A personal target as an optimal range in the given unit; undefined if it cannot be converted
+export const getTargetRange = (target: PersonalTarget, unit: string, canonicalId?: string): ReferenceRange | undefined =>
+  convertRanges([{ kind: 'optimal', low: target.low, high: target.high }], target.unit, unit, getBiomarker(canonicalId)?.analyte)?.[0];
+
+// The point's ranges, with the metric's personal target in place of the lab's optimal range
+export const getEffectiveRanges = (dp: MetricValue, metric?: Pick<HealthMetric, 'target' | 'canonicalId'>): ReferenceRange[] => {
+  const ranges = getRanges(dp);
+  const target = metric?.target && getTargetRange(metric.target, dp.unit, metric.canonicalId);
+  return target ? [...ranges.filter(r => r.kind !== 'optimal'), target] : ranges;
+};
+
+export const getPointStatus = (dp: MetricValue, subject?: RangeSubject, metric?: Pick<HealthMetric, 'target' | 'canonicalId'>): MetricStatus =>
+  computeStatus(dp.value, getEffectiveRanges(dp, metric), subject, dp.reportedStatus ?? (dp.isOutOfRange ? 'High' : 'Normal'));
+
+export const isOutOfRangeStatus = (status: MetricStatus) => status === 'High' || status === 'Low';
+
+// Sorts the history and recomputes latest value, per-point flags and status
+export const recalculateMetric = (metric: HealthMetric, subject?: RangeSubject): HealthMetric => {
+  if (metric.dataPoints.length === 0) return metric;
+
+  const dataPoints = [...metric.dataPoints]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(dp => ({ ...dp, isOutOfRange: isOutOfRangeStatus(getPointStatus(dp, subject, metric)) }));
+  const latest = dataPoints[dataPoints.length - 1];
+
+  return {
+    ...metric,
+    dataPoints,
+    latestValue: latest.value,
+    latestUnit: latest.unit,
+    latestDate: latest.date,
+    status: getPointStatus(latest, subject, metric)
+  };
+};
@@ -0,0 +1,81 @@
+import { HealthMetric, MetricValue, SourceDocument } from "../types";
+import { revertImportBatch } from "./changeLog";
+import { recalculateMetric } from "./referenceRanges";
+
+// Groups stored readings back into the reports they came from.
+
+export interface ReportResult {
+  metric: HealthMetric;
+  point: MetricValue;
+}
+
+export interface Report {
+  // The source document, or the file name and date for data imported before documents were tracked
+  key: string;
+  documentId?: string;
+  name: string;
+  dates: string[]; // collection dates, oldest first
+  importedAt?: string;
+  mimeType?: string;
+  results: ReportResult[];
+  outOfRange: number;
+}
+
+const reportKey = (dp: MetricValue) =>
+  dp.documentId || (dp.sourceDoc ? `${dp.sourceDoc}|${dp.date}` : undefined);
+
+// Manually entered readings have no source and are left out
+export const buildReports = (metrics: HealthMetric[], documents: SourceDocument[]): Report[] => {
+  const documentsById = new Map(documents.map(d => [d.id, d]));
+  const reports = new Map<string, Report>();
+
+  metrics.forEach(metric => {
+    metric.dataPoints.forEach(point => {
+      const key = reportKey(point);
+      if (!key) return;
+
+      let report = reports.get(key);
+      if (!report) {
+        const document = point.documentId ? documentsById.get(point.documentId) : undefined;
+        report = {
+          key,
+          documentId: point.documentId,
+          name: document?.name || point.sourceDoc || 'Unnamed report',
+          dates: [],
+          importedAt: document?.importedAt,
+          mimeType: document?.mimeType,
+          results: [],
+          outOfRange: 0
+        };
+        reports.set(key, report);
+      }
+
+      report.results.push({ metric, point });
+      if (point.isOutOfRange) report.outOfRange++;
+      if (!report.dates.includes(point.date)) report.dates.push(point.date);
+    });
+  });
+
+  return [...reports.values()]
+    .map(report => ({
+      ...report,
+      dates: report.dates.sort(),
+      results: report.results.sort((a, b) => a.metric.category.localeCompare(b.metric.category) || a.metric.name.localeCompare(b.metric.name))
+    }))
+    .sort((a, b) => b.dates[b.dates.length - 1].localeCompare(a.dates[a.dates.length - 1]));
+};
+
+// e.g. "2024-03-12" or "2024-03-12 – 2024-04-30"
+export const describeReportDates = (report: Report) =>
+  report.dates.length === 1 ? report.dates[0] : `${report.dates[0]} – ${report.dates[report.dates.length - 1]}`;
+
+// Every metric without the report's readings; metrics left empty are dropped
+export const removeReport = (metrics: HealthMetric[], report: Report): HealthMetric[] => {
+  if (report.documentId) return revertImportBatch(metrics, report.documentId);
+
+  return metrics.flatMap(metric => {
+    const dataPoints = metric.dataPoints.filter(dp => reportKey(dp) !== report.key);
+    if (dataPoints.length === metric.dataPoints.length) return [metric];
+    return dataPoints.length > 0 ? [recalculateMetric({ ...metric, dataPoints })] : [];
+  });
+};
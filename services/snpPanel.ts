@@ -0,0 +1,119 @@
+// Bundled panel of well-studied SNPs read from raw DNA files. Alleles are on the plus strand (GRCh37),
+// which is how 23andMe and AncestryDNA report them.
+// Interpretations are deliberately conservative: these are associations, not diagnoses.
+
+export interface SnpCall {
+  genotype: string;
+  interpretation: string;
+  flagged: boolean;
+}
+
+export interface SnpPanelEntry {
+  id: string;
+  gene: string;
+  name: string;
+  rsids: string[];
+  description: string;
+  // Receives the sorted genotype for each rsid, e.g. { rs1801133: 'AG' }
+  interpret: (genotypes: Record<string, string>) => SnpCall | undefined;
+}
+
+const countAllele = (genotype: string, allele: string) => genotype.split('').filter(a => a === allele).length;
+
+// Most entries are a single SNP where the number of variant alleles drives the reading
+const singleSnp = (
+  entry: Omit<SnpPanelEntry, 'rsids' | 'interpret'> & {
+    rsid: string;
+    variant: string;
+    readings: [string, string, string]; // by number of variant alleles: 0, 1, 2
+    flagFrom?: 1 | 2;
+  }
+): SnpPanelEntry => ({
+  id: entry.id,
+  gene: entry.gene,
+  name: entry.name,
+  rsids: [entry.rsid],
+  description: entry.description,
+  interpret: genotypes => {
+    const genotype = genotypes[entry.rsid];
+    if (!genotype) return undefined;
+    const copies = countAllele(genotype, entry.variant);
+    return { genotype, interpretation: entry.readings[copies], flagged: copies >= (entry.flagFrom ?? 1) };
+  }
+});
+
+// APOE alleles are defined by two SNPs: rs429358 C marks e4, rs7412 T marks e2
+const interpretApoe = (genotypes: Record<string, string>): SnpCall | undefined => {
+  const { rs429358, rs7412 } = genotypes;
+  if (!rs429358 || !rs7412) return undefined;
+
+  const e4 = countAllele(rs429358, 'C');
+  const e2 = countAllele(rs7412, 'T');
+  const e3 = 2 - e4 - e2;
+  if (e3 < 0) return undefined; // rare e1 or unphased combination
+
+  const alleles = [...Array(e2).fill('ε2'), ...Array(e3).fill('ε3'), ...Array(e4).fill('ε4')];
+  const genotype = alleles.join('/');
+
+  if (e4 === 2) return { genotype, interpretation: 'Two copies of ε4: substantially higher risk of Alzheimer\'s disease and elevated LDL. Worth discussing with a clinician.', flagged: true };
+  if (e4 === 1) return { genotype, interpretation: 'One copy of ε4: moderately higher risk of Alzheimer\'s disease and cardiovascular disease; LDL tends to respond to saturated fat.', flagged: true };
+  if (e2 === 2) return { genotype, interpretation: 'Two copies of ε2: linked to type III hyperlipoproteinemia in a minority of carriers; triglycerides are worth watching.', flagged: true };
+  if (e2 === 1) return { genotype, interpretation: 'One copy of ε2: generally associated with lower LDL and lower Alzheimer\'s risk.', flagged: false };
+  return { genotype, interpretation: 'The most common APOE genotype, with average risk.', flagged: false };
+};
+
+export const SNP_PANEL: SnpPanelEntry[] = [
+  // Methylation
+  singleSnp({ id: 'mthfr-c677t', gene: 'MTHFR', name: 'MTHFR C677T', rsid: 'rs1801133', variant: 'A',
+    description: 'Affects the enzyme that activates folate; reduced activity can raise homocysteine.',
+    readings: ['Typical MTHFR activity.', 'One copy of 677T: mildly reduced MTHFR activity (about 65%).', 'Two copies of 677T: MTHFR activity around 30%; homocysteine and folate status are worth checking.'] }),
+  singleSnp({ id: 'mthfr-a1298c', gene: 'MTHFR', name: 'MTHFR A1298C', rsid: 'rs1801131', variant: 'G',
+    description: 'A second MTHFR variant with a smaller effect on enzyme activity.',
+    readings: ['Typical at this position.', 'One copy of 1298C: minimal effect on its own.', 'Two copies of 1298C: mildly reduced MTHFR activity.'], flagFrom: 2 }),
+
+  // Cardiometabolic
+  { id: 'apoe', gene: 'APOE', name: 'APOE Genotype', rsids: ['rs429358', 'rs7412'],
+    description: 'Apolipoprotein E carries cholesterol in the blood; the ε4 allele affects lipid handling and brain health.',
+    interpret: interpretApoe },
+  singleSnp({ id: 'fto', gene: 'FTO', name: 'FTO Obesity Risk', rsid: 'rs9939609', variant: 'A',
+    description: 'The most replicated common variant linked to body weight and appetite.',
+    readings: ['Typical FTO variant.', 'One risk allele: slightly higher tendency to gain weight; physical activity blunts the effect.', 'Two risk alleles: higher tendency to gain weight (about 3 kg on average); activity and protein intake help.'] }),
+  singleSnp({ id: 'tcf7l2', gene: 'TCF7L2', name: 'TCF7L2 Diabetes Risk', rsid: 'rs7903146', variant: 'T',
+    description: 'The strongest common genetic risk factor for type 2 diabetes, acting on insulin secretion.',
+    readings: ['Typical risk.', 'One risk allele: about 1.4x risk of type 2 diabetes.', 'Two risk alleles: about 2x risk of type 2 diabetes; glucose and HbA1c are worth tracking.'] }),
+  singleSnp({ id: 'slco1b1', gene: 'SLCO1B1', name: 'SLCO1B1 Statin Response', rsid: 'rs4149056', variant: 'C',
+    description: 'Liver transporter for statins; the variant raises simvastatin levels in the blood.',
+    readings: ['Typical statin transport.', 'One copy: higher risk of statin-related muscle pain, especially with simvastatin.', 'Two copies: much higher risk of statin myopathy; dosing guidelines recommend alternatives.'] }),
+  singleSnp({ id: 'pnpla3', gene: 'PNPLA3', name: 'PNPLA3 Fatty Liver Risk', rsid: 'rs738409', variant: 'G',
+    description: 'Variant I148M increases liver fat accumulation and non-alcoholic fatty liver disease risk.',
+    readings: ['Typical risk.', 'One copy of I148M: moderately higher risk of fatty liver.', 'Two copies of I148M: clearly higher risk of fatty liver; liver enzymes are worth watching.'] }),
+
+  // Blood and iron
+  singleSnp({ id: 'factor-v-leiden', gene: 'F5', name: 'Factor V Leiden', rsid: 'rs6025', variant: 'T',
+    description: 'A clotting factor variant that increases the risk of venous blood clots.',
+    readings: ['No Factor V Leiden variant detected.', 'Heterozygous Factor V Leiden: roughly 5x risk of venous thrombosis.', 'Homozygous Factor V Leiden: strongly increased clotting risk; discuss with a clinician.'] }),
+  singleSnp({ id: 'hfe-c282y', gene: 'HFE', name: 'HFE C282Y', rsid: 'rs1800562', variant: 'A',
+    description: 'The main variant behind hereditary hemochromatosis (iron overload).',
+    readings: ['No C282Y variant detected.', 'Carrier of C282Y: iron overload is uncommon, but ferritin is worth checking.', 'Two copies of C282Y: high risk of iron overload; ferritin and transferrin saturation should be monitored.'] }),
+  singleSnp({ id: 'hfe-h63d', gene: 'HFE', name: 'HFE H63D', rsid: 'rs1799945', variant: 'G',
+    description: 'A milder hemochromatosis variant, most relevant in combination with C282Y.',
+    readings: ['No H63D variant detected.', 'Carrier of H63D: little effect on its own.', 'Two copies of H63D: mildly raised iron stores in some people.'], flagFrom: 2 }),
+
+  // Vitamins and nutrients
+  singleSnp({ id: 'vdr-taqi', gene: 'VDR', name: 'VDR TaqI', rsid: 'rs731236', variant: 'G',
+    description: 'A common vitamin D receptor variant studied for bone density and vitamin D response.',
+    readings: ['Typical at this position.', 'One copy of the TaqI variant: small, inconsistent effects in studies.', 'Two copies of the TaqI variant: some studies link it to a weaker response to vitamin D.'], flagFrom: 2 }),
+  singleSnp({ id: 'lct', gene: 'LCT', name: 'Lactase Persistence', rsid: 'rs4988235', variant: 'G',
+    description: 'Determines whether lactase production continues into adulthood in people of European ancestry.',
+    readings: ['Lactase persistent: likely able to digest lactose.', 'Lactase persistent: likely able to digest lactose.', 'Likely lactose intolerant as an adult.'], flagFrom: 2 }),
+
+  // Neurotransmitters and caffeine
+  singleSnp({ id: 'comt', gene: 'COMT', name: 'COMT Val158Met', rsid: 'rs4680', variant: 'A',
+    description: 'Affects how quickly dopamine and estrogens are broken down.',
+    readings: ['Val/Val: fast COMT, quicker dopamine clearance.', 'Val/Met: intermediate COMT activity.', 'Met/Met: slow COMT, higher dopamine levels and more stress sensitivity.'], flagFrom: 2 }),
+  singleSnp({ id: 'cyp1a2', gene: 'CYP1A2', name: 'CYP1A2 Caffeine Metabolism', rsid: 'rs762551', variant: 'C',
+    description: 'The main enzyme that clears caffeine.',
+    readings: ['Fast caffeine metabolizer.', 'Slow caffeine metabolizer: heavy coffee intake has been linked to higher blood pressure.', 'Slow caffeine metabolizer: heavy coffee intake has been linked to higher blood pressure.'] }),
+];
+
+export const PANEL_RSIDS = new Set(SNP_PANEL.flatMap(entry => entry.rsids));
@@ -0,0 +1,413 @@
+import { ChangeLogEntry, ChatThread, GeneticResult, HealthMetric, MetricValue, Profile, SourceDocument } from "../types";
+
+// IndexedDB persistence. Metrics and their data points live in separate stores so a
+// change to one metric only rewrites that metric instead of the whole dataset.
+// Apart from profiles and settings, every repository reads and writes the active profile's data only.
+
+const DB_NAME = 'holistic_health';
+const LEGACY_STORAGE_KEY = 'health_metrics';
+export const ACTIVE_PROFILE_KEY = 'activeProfileId';
+
+const STORES = {
+  metrics: 'metrics',
+  dataPoints: 'dataPoints',
+  documents: 'documents',
+  chatThreads: 'chatThreads',
+  settings: 'settings',
+  geneticResults: 'geneticResults',
+  changeLog: 'changeLog',
+  profiles: 'profiles',
+  documentFiles: 'documentFiles',
+} as const;
+
+// Stores whose records belong to a profile
+const PROFILE_STORES = [STORES.metrics, STORES.documents, STORES.chatThreads, STORES.geneticResults, STORES.changeLog, STORES.documentFiles];
+
+type StoredMetric = Omit<HealthMetric, 'dataPoints'>;
+
+interface StoredDataPoint extends MetricValue {
+  id: string;
+  metricId: string;
+  order: number;
+}
+
+// Each entry upgrades the schema by one version: MIGRATIONS[0] takes an empty database to v1.
+// Never edit a shipped migration; append a new one instead.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial stores, plus a one-time import of the old localStorage blob
+  (db, tx) => {
+    db.createObjectStore(STORES.metrics, { keyPath: 'id' });
+    const dataPoints = db.createObjectStore(STORES.dataPoints, { keyPath: 'id' });
+    dataPoints.createIndex('metricId', 'metricId');
+    const documents = db.createObjectStore(STORES.documents, { keyPath: 'id' });
+    documents.createIndex('name', 'name');
+    db.createObjectStore(STORES.chatThreads, { keyPath: 'id' });
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!legacy) return;
+
+    try {
+      const metrics: HealthMetric[] = JSON.parse(legacy);
+      const documentIds = new Map<string, string>();
+
+      metrics.forEach(metric => {
+        const points = metric.dataPoints.map(dp => {
+          if (dp.sourceDoc && !documentIds.has(dp.sourceDoc)) {
+            const doc: SourceDocument = { id: createId(), name: dp.sourceDoc, importedAt: new Date().toISOString() };
+            documentIds.set(dp.sourceDoc, doc.id);
+            tx.objectStore(STORES.documents).put(doc);
+          }
+          return { ...dp, documentId: dp.sourceDoc ? documentIds.get(dp.sourceDoc) : undefined };
+        });
+        writeMetric(tx, { ...metric, dataPoints: points });
+      });
+    } catch (error) {
+      // Leave the legacy blob in place so nothing is lost
+      console.error('Failed to import legacy metrics', error);
+    }
+  },
+  // v2: key/value app settings
+  db => {
+    db.createObjectStore(STORES.settings, { keyPath: 'key' });
+  },
+  // v3: genotype calls from raw DNA files, keyed by SNP panel entry
+  db => {
+    db.createObjectStore(STORES.geneticResults, { keyPath: 'id' });
+  },
+  // v4: append-only audit log of imports, edits and deletions
+  db => {
+    db.createObjectStore(STORES.changeLog, { keyPath: 'id' });
+  },
+  // v5: profiles. Everything stored so far belongs to a default profile.
+  (db, tx) => {
+    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+    const profile: Profile = { id: createId(), name: 'Me', units: 'conventional', createdAt: Date.now() };
+    tx.objectStore(STORES.profiles).put(profile);
+    tx.objectStore(STORES.settings).put({ key: ACTIVE_PROFILE_KEY, value: profile.id });
+
+    [STORES.metrics, STORES.documents, STORES.chatThreads, STORES.changeLog].forEach(name => {
+      const store = tx.objectStore(name);
+      store.createIndex('profileId', 'profileId');
+      const cursorRequest = store.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, profileId: profile.id });
+        cursor.continue();
+      };
+    });
+
+    // Genetic results were keyed by panel entry alone, so the store is rebuilt with a per-profile key.
+    // This finishes asynchronously: later migrations must not touch geneticResults synchronously.
+    const existing = tx.objectStore(STORES.geneticResults).getAll();
+    existing.onsuccess = () => {
+      db.deleteObjectStore(STORES.geneticResults);
+      const store = db.createObjectStore(STORES.geneticResults, { keyPath: ['profileId', 'id'] });
+      store.createIndex('profileId', 'profileId');
+      existing.result.forEach(result => store.put({ ...result, profileId: profile.id }));
+    };
+  },
+  // v6: original files of imported documents, keyed by document ID. Kept out of the documents
+  // store so listing documents never loads the files themselves.
+  db => {
+    const files = db.createObjectStore(STORES.documentFiles, { keyPath: 'id' });
+    files.createIndex('profileId', 'profileId');
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export const createId = () => Math.random().toString(36).substr(2, 9);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let activeProfileId: string | null = null;
+
+// Scopes all profile-owned repositories; call before loading any data
+export const setActiveProfile = (id: string) => {
+  activeProfileId = id;
+};
+
+const currentProfileId = () => {
+  if (!activeProfileId) throw new Error('No active profile');
+  return activeProfileId;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    let importedLegacy = false;
+
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+      importedLegacy = event.oldVersion === 0;
+    };
+    request.onsuccess = () => {
+      // The upgrade transaction has committed, so the blob is safely in IndexedDB now
+      if (importedLegacy) localStorage.removeItem(LEGACY_STORAGE_KEY);
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Runs `work` in one transaction and resolves once it has committed
+const withTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  work(tx);
+  return transactionDone(tx);
+};
+
+// Data point keys are "<metricId>:<order>", so one key range covers a metric's history.
+// A range delete is queued synchronously, which keeps it ahead of any puts in the same transaction.
+const deleteDataPointsFor = (tx: IDBTransaction, metricId: string) => {
+  tx.objectStore(STORES.dataPoints).delete(IDBKeyRange.bound(`${metricId}:`, `${metricId}:\uffff`));
+};
+
+const listForProfile = <T>(tx: IDBTransaction, storeName: string, profileId = currentProfileId()): Promise<T[]> =>
+  requestToPromise(tx.objectStore(storeName).index('profileId').getAll(profileId));
+
+// Deletes a profile's records from one store; for metrics the data points go too
+const clearForProfile = (tx: IDBTransaction, storeName: string, profileId = currentProfileId()) => {
+  const store = tx.objectStore(storeName);
+  const keysRequest = store.index('profileId').getAllKeys(profileId);
+  keysRequest.onsuccess = () => {
+    keysRequest.result.forEach(key => {
+      store.delete(key);
+      if (storeName === STORES.metrics) deleteDataPointsFor(tx, key as string);
+    });
+  };
+};
+
+const writeMetric = (tx: IDBTransaction, metric: HealthMetric) => {
+  const { dataPoints, ...record } = metric;
+  tx.objectStore(STORES.metrics).put(record as StoredMetric);
+  deleteDataPointsFor(tx, metric.id);
+  dataPoints.forEach((dp, order) => {
+    const row: StoredDataPoint = { ...dp, id: `${metric.id}:${order}`, metricId: metric.id, order };
+    tx.objectStore(STORES.dataPoints).put(row);
+  });
+};
+
+export const metricsRepository = {
+  list: async (): Promise<HealthMetric[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.metrics, STORES.dataPoints], 'readonly');
+    const records = await listForProfile<StoredMetric>(tx, STORES.metrics);
+    const points = await Promise.all(records.map(record =>
+      requestToPromise(tx.objectStore(STORES.dataPoints).getAll(
+        IDBKeyRange.bound(`${record.id}:`, `${record.id}:\uffff`)
+      ) as IDBRequest<StoredDataPoint[]>)
+    ));
+
+    return records.map((record, i) => ({
+      ...record,
+      dataPoints: points[i]
+        .sort((a, b) => a.order - b.order)
+        .map(({ id, metricId, order, ...dp }) => dp),
+    }));
+  },
+
+  // Writes only the given metrics; everything else in the store is left untouched
+  saveAll: (metrics: HealthMetric[]) =>
+    withTransaction([STORES.metrics, STORES.dataPoints], 'readwrite', tx => {
+      const profileId = currentProfileId();
+      metrics.forEach(m => writeMetric(tx, { ...m, profileId }));
+    }),
+
+  save: (metric: HealthMetric) => metricsRepository.saveAll([metric]),
+
+  remove: (id: string) =>
+    withTransaction([STORES.metrics, STORES.dataPoints], 'readwrite', tx => {
+      tx.objectStore(STORES.metrics).delete(id);
+      deleteDataPointsFor(tx, id);
+    }),
+
+  clear: () =>
+    withTransaction([STORES.metrics, STORES.dataPoints], 'readwrite', tx => {
+      clearForProfile(tx, STORES.metrics);
+    }),
+};
+
+export const documentsRepository = {
+  list: async (): Promise<SourceDocument[]> => {
+    const db = await openDatabase();
+    return listForProfile(db.transaction(STORES.documents), STORES.documents);
+  },
+
+  save: (doc: SourceDocument) => documentsRepository.saveAll([doc]),
+
+  saveAll: (docs: SourceDocument[]) =>
+    withTransaction([STORES.documents], 'readwrite', tx => {
+      const profileId = currentProfileId();
+      docs.forEach(doc => tx.objectStore(STORES.documents).put({ ...doc, profileId }));
+    }),
+
+  remove: (id: string) =>
+    withTransaction([STORES.documents], 'readwrite', tx => {
+      tx.objectStore(STORES.documents).delete(id);
+    }),
+
+  clear: () =>
+    withTransaction([STORES.documents], 'readwrite', tx => {
+      clearForProfile(tx, STORES.documents);
+    }),
+};
+
+interface StoredDocumentFile {
+  id: string; // SourceDocument ID
+  profileId: string;
+  file: Blob;
+}
+
+export const documentFilesRepository = {
+  get: async (documentId: string): Promise<Blob | undefined> => {
+    const db = await openDatabase();
+    const row: StoredDocumentFile | undefined = await requestToPromise(
+      db.transaction(STORES.documentFiles).objectStore(STORES.documentFiles).get(documentId)
+    );
+    return row?.file;
+  },
+
+  save: (documentId: string, file: Blob) =>
+    withTransaction([STORES.documentFiles], 'readwrite', tx => {
+      const row: StoredDocumentFile = { id: documentId, profileId: currentProfileId(), file };
+      tx.objectStore(STORES.documentFiles).put(row);
+    }),
+
+  remove: (documentId: string) =>
+    withTransaction([STORES.documentFiles], 'readwrite', tx => {
+      tx.objectStore(STORES.documentFiles).delete(documentId);
+    }),
+
+  clear: () =>
+    withTransaction([STORES.documentFiles], 'readwrite', tx => {
+      clearForProfile(tx, STORES.documentFiles);
+    }),
+};
+
+export const chatThreadsRepository = {
+  list: async (): Promise<ChatThread[]> => {
+    const db = await openDatabase();
+    const threads = await listForProfile<ChatThread>(db.transaction(STORES.chatThreads), STORES.chatThreads);
+    return threads.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  save: (thread: ChatThread) =>
+    withTransaction([STORES.chatThreads], 'readwrite', tx => {
+      tx.objectStore(STORES.chatThreads).put({ ...thread, profileId: currentProfileId() });
+    }),
+
+  remove: (id: string) =>
+    withTransaction([STORES.chatThreads], 'readwrite', tx => {
+      tx.objectStore(STORES.chatThreads).delete(id);
+    }),
+};
+
+export const settingsRepository = {
+  getAll: async (): Promise<Record<string, unknown>> => {
+    const db = await openDatabase();
+    const rows: { key: string; value: unknown }[] = await requestToPromise(
+      db.transaction(STORES.settings).objectStore(STORES.settings).getAll()
+    );
+    return Object.fromEntries(rows.map(r => [r.key, r.value]));
+  },
+
+  get: async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const row = await requestToPromise(db.transaction(STORES.settings).objectStore(STORES.settings).get(key));
+    return row?.value as T | undefined;
+  },
+
+  set: (key: string, value: unknown) =>
+    withTransaction([STORES.settings], 'readwrite', tx => {
+      tx.objectStore(STORES.settings).put({ key, value });
+    }),
+
+  replaceAll: (settings: Record<string, unknown>) =>
+    withTransaction([STORES.settings], 'readwrite', tx => {
+      const store = tx.objectStore(STORES.settings);
+      store.clear();
+      Object.entries(settings).forEach(([key, value]) => store.put({ key, value }));
+    }),
+};
+
+export const geneticResultsRepository = {
+  list: async (): Promise<GeneticResult[]> => {
+    const db = await openDatabase();
+    return listForProfile(db.transaction(STORES.geneticResults), STORES.geneticResults);
+  },
+
+  saveAll: (results: GeneticResult[]) =>
+    withTransaction([STORES.geneticResults], 'readwrite', tx => {
+      const profileId = currentProfileId();
+      results.forEach(result => tx.objectStore(STORES.geneticResults).put({ ...result, profileId }));
+    }),
+
+  clear: () =>
+    withTransaction([STORES.geneticResults], 'readwrite', tx => {
+      clearForProfile(tx, STORES.geneticResults);
+    }),
+};
+
+export const changeLogRepository = {
+  // Oldest first
+  list: async (): Promise<ChangeLogEntry[]> => {
+    const db = await openDatabase();
+    const entries = await listForProfile<ChangeLogEntry>(db.transaction(STORES.changeLog), STORES.changeLog);
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  },
+
+  // Entries are never updated or removed (except when their whole profile is deleted)
+  append: (entry: ChangeLogEntry) =>
+    withTransaction([STORES.changeLog], 'readwrite', tx => {
+      tx.objectStore(STORES.changeLog).add({ ...entry, profileId: currentProfileId() });
+    }),
+};
+
+export const profilesRepository = {
+  list: async (): Promise<Profile[]> => {
+    const db = await openDatabase();
+    const profiles: Profile[] = await requestToPromise(db.transaction(STORES.profiles).objectStore(STORES.profiles).getAll());
+    return profiles.sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  save: (profile: Profile) =>
+    withTransaction([STORES.profiles], 'readwrite', tx => {
+      tx.objectStore(STORES.profiles).put(profile);
+    }),
+
+  // Removes the profile together with all of its data
+  remove: (id: string) =>
+    withTransaction([STORES.profiles, STORES.dataPoints, ...PROFILE_STORES], 'readwrite', tx => {
+      tx.objectStore(STORES.profiles).delete(id);
+      PROFILE_STORES.forEach(name => clearForProfile(tx, name, id));
+    }),
+};
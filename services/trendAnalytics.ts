@@ -0,0 +1,177 @@
+import { HealthMetric, MetricValue, RangeBound } from "../types";
+import { RangeSubject, getRanges, selectRange } from "./referenceRanges";
+
+// Least-squares trends over a metric's history. A slope only counts as a trend when it is
+// statistically distinguishable from zero, so one noisy reading does not flip the arrow.
+
+export type TrendWindow = 'all' | '5y' | '2y' | '1y';
+
+export const TREND_WINDOW_LABELS: Record<TrendWindow, string> = {
+  all: 'All',
+  '5y': '5Y',
+  '2y': '2Y',
+  '1y': '1Y'
+};
+
+const WINDOW_DAYS: Record<TrendWindow, number> = { all: Infinity, '5y': 5 * 365, '2y': 2 * 365, '1y': 365 };
+
+export type TrendDirection = 'rising' | 'falling' | 'stable';
+// significant: the slope is non-zero at 95% confidence; uncertain: it is not; insufficient: too few readings
+export type TrendConfidence = 'significant' | 'uncertain' | 'insufficient';
+
+export interface TrendProjection {
+  bound: 'low' | 'high';
+  value: number;
+  date: string;
+  daysAway: number;
+}
+
+export interface TrendPoint {
+  date: string;
+  time: number;
+  value: number;
+  low: number; // 95% prediction band
+  high: number;
+}
+
+export interface TrendAnalysis {
+  window: TrendWindow;
+  unit: string;
+  points: number;
+  slopePerYear: number;
+  percentPerYear?: number; // relative to the mean; undefined when the mean is zero
+  r2: number;
+  direction: TrendDirection;
+  confidence: TrendConfidence;
+  line: TrendPoint[]; // fitted values across the window
+  forecast: TrendPoint[]; // fitted values past the last reading, with the prediction band
+  projection?: TrendProjection; // when the trend will leave the reference range
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_POINTS = 3;
+const STABLE_PERCENT_PER_YEAR = 2; // significant but slower than this still reads as stable
+const FORECAST_DAYS = 365;
+const MAX_PROJECTION_DAYS = 5 * 365;
+const FORECAST_STEPS = 12;
+
+// Two-sided 95% critical values of Student's t, by degrees of freedom
+const T_CRITICAL = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131,
+  2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042];
+const tCritical = (df: number) => T_CRITICAL[df - 1] ?? 1.96;
+
+const toTime = (date: string) => new Date(date).getTime();
+const toDate = (time: number) => new Date(time).toISOString().split('T')[0];
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// The readings a trend is fitted to: inside the window and in the latest unit
+export const getTrendPoints = (metric: HealthMetric, window: TrendWindow = 'all'): MetricValue[] => {
+  const latest = metric.dataPoints[metric.dataPoints.length - 1];
+  if (!latest) return [];
+  const since = toTime(latest.date) - WINDOW_DAYS[window] * DAY_MS;
+  return metric.dataPoints.filter(dp => dp.unit === latest.unit && toTime(dp.date) >= since && Number.isFinite(dp.value));
+};
+
+// The bound the fitted line will reach next, if it is heading towards one and is still inside the range
+const findProjection = (
+  slope: number,
+  fitted: (days: number) => number,
+  lastDay: number,
+  origin: number,
+  lab?: { low?: RangeBound; high?: RangeBound }
+): TrendProjection | undefined => {
+  const current = fitted(lastDay);
+  const target = slope > 0 ? lab?.high : lab?.low;
+  if (!target || slope === 0) return undefined;
+  if (slope > 0 ? current >= target.value : current <= target.value) return undefined;
+
+  const day = lastDay + (target.value - current) / slope;
+  const daysAway = Math.round(day - lastDay);
+  if (daysAway > MAX_PROJECTION_DAYS) return undefined;
+  return { bound: slope > 0 ? 'high' : 'low', value: target.value, date: toDate(origin + day * DAY_MS), daysAway };
+};
+
+export const analyzeTrend = (
+  metric: HealthMetric,
+  window: TrendWindow = 'all',
+  subject?: RangeSubject
+): TrendAnalysis | undefined => {
+  const points = getTrendPoints(metric, window);
+  if (points.length < 2) return undefined;
+
+  // Days since the first reading keep the numbers small enough to stay precise
+  const origin = toTime(points[0].date);
+  const xs = points.map(dp => (toTime(dp.date) - origin) / DAY_MS);
+  const ys = points.map(dp => dp.value);
+  const n = points.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  // All readings on one day: there is no time axis to fit
+  if (sxx === 0) return undefined;
+
+  const slope = xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+  const fitted = (x: number) => intercept + slope * x;
+  const ssRes = ys.reduce((sum, y, i) => sum + (y - fitted(xs[i])) ** 2, 0);
+  const ssTot = ys.reduce((sum, y) => sum + (y - meanY) ** 2, 0);
+  const r2 = ssTot === 0 ? 1 : 1 - ssRes / ssTot;
+
+  const df = n - 2;
+  const s = df > 0 ? Math.sqrt(ssRes / df) : 0;
+  let confidence: TrendConfidence = 'insufficient';
+  if (n >= MIN_POINTS) {
+    const standardError = s / Math.sqrt(sxx);
+    const significant = standardError === 0 ? slope !== 0 : Math.abs(slope / standardError) > tCritical(df);
+    confidence = significant ? 'significant' : 'uncertain';
+  }
+
+  const slopePerYear = slope * 365;
+  const percentPerYear = meanY !== 0 ? (slopePerYear / Math.abs(meanY)) * 100 : undefined;
+  const steady = percentPerYear !== undefined && Math.abs(percentPerYear) < STABLE_PERCENT_PER_YEAR;
+  const direction: TrendDirection = confidence !== 'significant' || steady ? 'stable' : slope > 0 ? 'rising' : 'falling';
+
+  const band = (x: number) =>
+    df > 0 ? tCritical(df) * s * Math.sqrt(1 + 1 / n + (x - meanX) ** 2 / sxx) : 0;
+  const toPoint = (x: number): TrendPoint => {
+    const value = fitted(x);
+    return { date: toDate(origin + x * DAY_MS), time: origin + x * DAY_MS, value: round(value), low: round(value - band(x)), high: round(value + band(x)) };
+  };
+
+  const lastDay = xs[n - 1];
+  const latest = points[n - 1];
+  const lab = selectRange(getRanges(latest), 'lab', subject);
+  const projection = direction === 'stable' ? undefined : findProjection(slope, fitted, lastDay, origin, lab);
+
+  // Forecast a year ahead, or up to the projected crossing when that is further out
+  const horizon = Math.max(FORECAST_DAYS, projection?.daysAway ?? 0);
+  const forecast = n >= MIN_POINTS
+    ? Array.from({ length: FORECAST_STEPS + 1 }, (_, i) => toPoint(lastDay + (horizon * i) / FORECAST_STEPS))
+    : [];
+
+  return {
+    window,
+    unit: latest.unit,
+    points: n,
+    slopePerYear: round(slopePerYear),
+    percentPerYear: percentPerYear === undefined ? undefined : Math.round(percentPerYear * 10) / 10,
+    r2: Math.round(r2 * 100) / 100,
+    direction,
+    confidence,
+    line: [toPoint(xs[0]), toPoint(lastDay)],
+    forecast,
+    projection
+  };
+};
+
+// e.g. "Rising 12.5%/yr (+15 mg/dL per year)"
+export const describeTrend = (trend: TrendAnalysis) => {
+  if (trend.confidence === 'insufficient') return 'Not enough readings for a trend';
+  if (trend.direction === 'stable') {
+    return trend.confidence === 'significant' ? 'Stable' : 'No clear trend';
+  }
+  const sign = trend.slopePerYear > 0 ? '+' : '';
+  const percent = trend.percentPerYear !== undefined ? ` ${sign}${trend.percentPerYear}%/yr` : '';
+  const perYear = Number(trend.slopePerYear.toPrecision(3));
+  return `${trend.direction === 'rising' ? 'Rising' : 'Falling'}${percent} (${sign}${perYear} ${trend.unit} per year)`;
+};
@@ -0,0 +1,285 @@
+// Deterministic unit conversion registry.
+// The AI only proposes which metrics match; all arithmetic happens here so results are reproducible.
+
+type Dimension =
+  | 'massConcentration'  // base: g/L
+  | 'molarConcentration' // base: mol/L
+  | 'activity'           // base: IU/L (enzymes and hormone international units)
+  | 'cellCount'          // base: cells/L
+  | 'mass'               // base: kg
+  | 'length'             // base: m
+  | 'temperature'        // base: °C
+  | 'percent'            // base: %
+  | 'molarRatio';        // base: mmol/mol
+
+interface UnitDefinition {
+  dimension: Dimension;
+  // base = value * factor + offset
+  factor: number;
+  offset?: number;
+}
+
+// Converts between two dimensions for a specific analyte, operating on base units
+interface Bridge {
+  from: Dimension;
+  to: Dimension;
+  forward: (base: number) => number;
+  inverse: (base: number) => number;
+}
+
+export interface Analyte {
+  id: string;
+  name: string;
+  aliases: string[];
+  molarMass?: number; // g/mol, bridges mass <-> molar concentration
+  bridges?: Bridge[];
+}
+
+export interface ConversionResult {
+  value: number;
+  unit: string;
+  // Set when the conversion is not possible; value and unit are then left as reported
+  error?: string;
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  // Mass concentration
+  'g/l': { dimension: 'massConcentration', factor: 1 },
+  'g/dl': { dimension: 'massConcentration', factor: 10 },
+  'mg/ml': { dimension: 'massConcentration', factor: 1 },
+  'mg/dl': { dimension: 'massConcentration', factor: 0.01 },
+  'mg/l': { dimension: 'massConcentration', factor: 1e-3 },
+  'ug/ml': { dimension: 'massConcentration', factor: 1e-3 },
+  'ug/dl': { dimension: 'massConcentration', factor: 1e-5 },
+  'ug/l': { dimension: 'massConcentration', factor: 1e-6 },
+  'ng/ml': { dimension: 'massConcentration', factor: 1e-6 },
+  'ng/dl': { dimension: 'massConcentration', factor: 1e-8 },
+  'ng/l': { dimension: 'massConcentration', factor: 1e-9 },
+  'pg/ml': { dimension: 'massConcentration', factor: 1e-9 },
+
+  // Molar concentration
+  'mol/l': { dimension: 'molarConcentration', factor: 1 },
+  'mmol/l': { dimension: 'molarConcentration', factor: 1e-3 },
+  'umol/l': { dimension: 'molarConcentration', factor: 1e-6 },
+  'nmol/l': { dimension: 'molarConcentration', factor: 1e-9 },
+  'pmol/l': { dimension: 'molarConcentration', factor: 1e-12 },
+
+  // International / enzyme units
+  'iu/l': { dimension: 'activity', factor: 1 },
+  'u/l': { dimension: 'activity', factor: 1 },
+  'iu/ml': { dimension: 'activity', factor: 1e3 },
+  'miu/ml': { dimension: 'activity', factor: 1 },
+  'miu/l': { dimension: 'activity', factor: 1e-3 },
+  'uiu/ml': { dimension: 'activity', factor: 1e-3 },
+
+  // Cell counts
+  '10^9/l': { dimension: 'cellCount', factor: 1e9 },
+  '10^3/ul': { dimension: 'cellCount', factor: 1e9 },
+  '10^12/l': { dimension: 'cellCount', factor: 1e12 },
+  '10^6/ul': { dimension: 'cellCount', factor: 1e12 },
+  '/ul': { dimension: 'cellCount', factor: 1e6 },
+
+  // Body measurements
+  'kg': { dimension: 'mass', factor: 1 },
+  'g': { dimension: 'mass', factor: 1e-3 },
+  'lb': { dimension: 'mass', factor: 0.45359237 },
+  'oz': { dimension: 'mass', factor: 0.028349523125 },
+  'st': { dimension: 'mass', factor: 6.35029318 },
+  'm': { dimension: 'length', factor: 1 },
+  'cm': { dimension: 'length', factor: 0.01 },
+  'mm': { dimension: 'length', factor: 1e-3 },
+  'in': { dimension: 'length', factor: 0.0254 },
+  'ft': { dimension: 'length', factor: 0.3048 },
+  'c': { dimension: 'temperature', factor: 1 },
+  'f': { dimension: 'temperature', factor: 5 / 9, offset: -160 / 9 },
+
+  '%': { dimension: 'percent', factor: 1 },
+  'mmol/mol': { dimension: 'molarRatio', factor: 1 },
+};
+
+// Spellings seen on lab reports mapped to the keys above
+const UNIT_ALIASES: Record<string, string> = {
+  'lbs': 'lb',
+  'pound': 'lb',
+  'pounds': 'lb',
+  'kgs': 'kg',
+  'kilograms': 'kg',
+  'grams': 'g',
+  'inch': 'in',
+  'inches': 'in',
+  'feet': 'ft',
+  'degc': 'c',
+  '°c': 'c',
+  'degf': 'f',
+  '°f': 'f',
+  'percent': '%',
+  'k/ul': '10^3/ul',
+  'x10^3/ul': '10^3/ul',
+  'x10e3/ul': '10^3/ul',
+  '10e3/ul': '10^3/ul',
+  'thou/ul': '10^3/ul',
+  'x10^9/l': '10^9/l',
+  'm/ul': '10^6/ul',
+  'x10^6/ul': '10^6/ul',
+  'x10e6/ul': '10^6/ul',
+  'mill/ul': '10^6/ul',
+  'x10^12/l': '10^12/l',
+  'cells/ul': '/ul',
+  'mu/l': 'miu/l',
+  'uu/ml': 'uiu/ml',
+};
+
+const cholesterol = 386.65;
+
+const ANALYTES: Analyte[] = [
+  { id: 'glucose', name: 'Glucose', aliases: ['glucose', 'fasting glucose', 'blood glucose', 'glucose fasting', 'glucose serum'], molarMass: 180.16 },
+  { id: 'total-cholesterol', name: 'Total Cholesterol', aliases: ['cholesterol', 'total cholesterol', 'cholesterol total'], molarMass: cholesterol },
+  { id: 'ldl', name: 'LDL Cholesterol', aliases: ['ldl', 'ldl cholesterol', 'ldl c', 'ldl chol calc', 'ldl cholesterol calc'], molarMass: cholesterol },
+  { id: 'hdl', name: 'HDL Cholesterol', aliases: ['hdl', 'hdl cholesterol', 'hdl c'], molarMass: cholesterol },
+  { id: 'non-hdl', name: 'Non-HDL Cholesterol', aliases: ['non hdl', 'non hdl cholesterol'], molarMass: cholesterol },
+  { id: 'vldl', name: 'VLDL Cholesterol', aliases: ['vldl', 'vldl cholesterol'], molarMass: cholesterol },
+  { id: 'triglycerides', name: 'Triglycerides', aliases: ['triglycerides', 'triglyceride', 'tg'], molarMass: 885.7 },
+  { id: 'vitamin-d', name: 'Vitamin D, 25-OH', aliases: ['vitamin d', 'vitamin d 25 oh', 'vitamin d 25 oh total', '25 oh vitamin d', '25 hydroxyvitamin d', 'vitamin d3', 'calcidiol'], molarMass: 400.64 },
+  { id: 'testosterone', name: 'Testosterone', aliases: ['testosterone', 'total testosterone', 'testosterone total', 'testosterone total ms', 'free testosterone', 'testosterone free'], molarMass: 288.42 },
+  { id: 'dht', name: 'Dihydrotestosterone', aliases: ['dht', 'dihydrotestosterone'], molarMass: 290.44 },
+  { id: 'estradiol', name: 'Estradiol', aliases: ['estradiol', 'e2', 'oestradiol'], molarMass: 272.38 },
+  { id: 'progesterone', name: 'Progesterone', aliases: ['progesterone'], molarMass: 314.46 },
+  { id: 'cortisol', name: 'Cortisol', aliases: ['cortisol', 'cortisol am', 'morning cortisol'], molarMass: 362.46 },
+  { id: 'dhea-s', name: 'DHEA-Sulfate', aliases: ['dhea s', 'dhea sulfate', 'dheas'], molarMass: 368.49 },
+  { id: 'free-t4', name: 'Free T4', aliases: ['free t4', 't4 free', 'ft4', 'free thyroxine', 't4', 'thyroxine'], molarMass: 776.87 },
+  { id: 'free-t3', name: 'Free T3', aliases: ['free t3', 't3 free', 'ft3', 'free triiodothyronine', 't3', 'triiodothyronine'], molarMass: 650.97 },
+  { id: 'vitamin-b12', name: 'Vitamin B12', aliases: ['vitamin b12', 'b12', 'cobalamin'], molarMass: 1355.37 },
+  { id: 'folate', name: 'Folate', aliases: ['folate', 'folic acid', 'folate serum'], molarMass: 441.4 },
+  { id: 'creatinine', name: 'Creatinine', aliases: ['creatinine', 'creatinine serum'], molarMass: 113.12 },
+  { id: 'uric-acid', name: 'Uric Acid', aliases: ['uric acid', 'urate'], molarMass: 168.11 },
+  // BUN is reported as urea nitrogen, so the molar mass is that of N2
+  { id: 'bun', name: 'Blood Urea Nitrogen', aliases: ['bun', 'urea nitrogen', 'blood urea nitrogen'], molarMass: 28.014 },
+  { id: 'calcium', name: 'Calcium', aliases: ['calcium', 'calcium serum'], molarMass: 40.078 },
+  { id: 'magnesium', name: 'Magnesium', aliases: ['magnesium', 'magnesium serum', 'rbc magnesium'], molarMass: 24.305 },
+  { id: 'iron', name: 'Iron', aliases: ['iron', 'iron serum', 'serum iron'], molarMass: 55.845 },
+  { id: 'phosphorus', name: 'Phosphorus', aliases: ['phosphorus', 'phosphate'], molarMass: 30.974 },
+  { id: 'bilirubin', name: 'Bilirubin', aliases: ['bilirubin', 'total bilirubin', 'bilirubin total'], molarMass: 584.66 },
+  { id: 'homocysteine', name: 'Homocysteine', aliases: ['homocysteine'], molarMass: 135.18 },
+  { id: 'ferritin', name: 'Ferritin', aliases: ['ferritin'], molarMass: 445000 },
+  {
+    id: 'insulin',
+    name: 'Insulin',
+    aliases: ['insulin', 'fasting insulin', 'insulin fasting'],
+    molarMass: 5808,
+    // 1 uIU/mL = 6 pmol/L
+    bridges: [{ from: 'activity', to: 'molarConcentration', forward: iu => iu * 6e-9, inverse: mol => mol / 6e-9 }],
+  },
+  {
+    id: 'hba1c',
+    name: 'Hemoglobin A1c',
+    aliases: ['hba1c', 'hemoglobin a1c', 'a1c', 'glycated hemoglobin', 'glycohemoglobin'],
+    // NGSP % <-> IFCC mmol/mol master equation
+    bridges: [{ from: 'percent', to: 'molarRatio', forward: pct => (pct - 2.15) * 10.929, inverse: ifcc => ifcc / 10.929 + 2.15 }],
+  },
+];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const aliasIndex = new Map<string, Analyte>();
+ANALYTES.forEach(a => {
+  aliasIndex.set(normalizeName(a.name), a);
+  a.aliases.forEach(alias => aliasIndex.set(normalizeName(alias), a));
+});
+
+export const normalizeUnit = (unit: string): string => {
+  const key = unit
+    .trim()
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/^mc(?=[gu])/, 'u')
+    .replace(/\/mc(?=[l])/, '/u')
+    .replace(/\s+/g, '')
+    .replace(/×/g, 'x');
+  return UNIT_ALIASES[key] ?? key;
+};
+
+export const isSameUnit = (a: string, b: string) => normalizeUnit(a) === normalizeUnit(b);
+
+export const findAnalyte = (name: string): Analyte | undefined =>
+  aliasIndex.get(normalizeName(name));
+
+export const getAnalyte = (id: string): Analyte | undefined =>
+  ANALYTES.find(a => a.id === id);
+
+// Enough precision for lab values without carrying floating point noise into the UI
+const round = (value: number) => Number(value.toPrecision(4));
+
+const findBridge = (analyte: Analyte | undefined, from: Dimension, to: Dimension) => {
+  if (!analyte) return undefined;
+
+  const bridges: Bridge[] = [...(analyte.bridges ?? [])];
+  if (analyte.molarMass) {
+    const mm = analyte.molarMass;
+    bridges.push({ from: 'massConcentration', to: 'molarConcentration', forward: g => g / mm, inverse: mol => mol * mm });
+  }
+
+  for (const b of bridges) {
+    if (b.from === from && b.to === to) return b.forward;
+    if (b.from === to && b.to === from) return b.inverse;
+  }
+  return undefined;
+};
+
+export const convertUnit = (
+  value: number,
+  fromUnit: string,
+  toUnit: string,
+  analyteId?: string
+): ConversionResult => {
+  const fail = (error: string): ConversionResult => ({ value, unit: fromUnit, error });
+
+  if (!Number.isFinite(value)) return fail(`Value ${value} is not a number`);
+  if (isSameUnit(fromUnit, toUnit)) return { value, unit: toUnit };
+
+  const from = UNITS[normalizeUnit(fromUnit)];
+  const to = UNITS[normalizeUnit(toUnit)];
+  if (!from) return fail(`Unknown unit "${fromUnit}"`);
+  if (!to) return fail(`Unknown unit "${toUnit}"`);
+
+  let base = value * from.factor + (from.offset ?? 0);
+
+  if (from.dimension !== to.dimension) {
+    const analyte = analyteId ? getAnalyte(analyteId) : undefined;
+    const bridge = findBridge(analyte, from.dimension, to.dimension);
+    if (!bridge) {
+      return fail(analyte
+        ? `No ${fromUnit} → ${toUnit} conversion is defined for ${analyte.name}`
+        : `Converting ${fromUnit} → ${toUnit} requires a known analyte`);
+    }
+    base = bridge(base);
+  }
+
+  return { value: round((base - (to.offset ?? 0)) / to.factor), unit: toUnit };
+};
+
+// Rewrites the numbers in a free-text range ("30-100 ng/mL", "<5.7") into the target unit.
+// Returns undefined if any number fails to convert so a wrong range is never shown.
+export const convertRangeText = (
+  range: string | undefined,
+  fromUnit: string,
+  toUnit: string,
+  analyteId?: string
+): string | undefined => {
+  if (!range) return range;
+  let failed = false;
+  // Drop the unit first so digits inside it (e.g. "10^3/uL") are not converted
+  const escapedUnit = fromUnit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const converted = range
+    .replace(new RegExp(escapedUnit, 'gi'), '')
+    .replace(/\d+(?:\.\d+)?/g, match => {
+      const result = convertUnit(parseFloat(match), fromUnit, toUnit, analyteId);
+      if (result.error) {
+        failed = true;
+        return match;
+      }
+      return String(result.value);
+    })
+    .trim();
+  return failed ? undefined : converted;
+};
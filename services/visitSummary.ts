@@ -0,0 +1,194 @@
+import { HealthMetric, MetricValue, Profile } from "../types";
+import { getBiomarker } from "./biomarkerCatalog";
+import { convertUnit } from "./unitConversion";
+import { RangeSubject, getEffectiveRanges, isOutOfRangeStatus, selectRange } from "./referenceRanges";
+import { describeProfile } from "./profiles";
+
+// A self-contained HTML summary to bring to an appointment. Everything, including the
+// sparklines, is inlined so the file opens and prints without a connection.
+
+export interface VisitSummaryRow {
+  metric: HealthMetric;
+  latest: MetricValue;
+  change?: { value: number; percent?: number; since: string };
+  sparkline: string; // inline SVG
+}
+
+export interface VisitSummarySection {
+  title: string;
+  rows: VisitSummaryRow[];
+}
+
+export interface VisitSummaryInput {
+  profile?: Profile;
+  notes: string;
+  aiSummary?: string;
+}
+
+// Sent to the advisor for the optional overview at the top of the summary
+export const VISIT_SUMMARY_PROMPT =
+  'Write a short overview of these results for my doctor: the main findings, what changed since earlier tests, ' +
+  'and questions worth raising at the appointment. Plain paragraphs, no more than 250 words.';
+
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 28;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Latest reading against the one before it, in the latest reading's unit
+export const changeSinceLastTest = (metric: HealthMetric): VisitSummaryRow['change'] => {
+  const latest = metric.dataPoints[metric.dataPoints.length - 1];
+  const previous = metric.dataPoints[metric.dataPoints.length - 2];
+  if (!latest || !previous) return undefined;
+  const earlier = convertUnit(previous.value, previous.unit, latest.unit, getBiomarker(metric.canonicalId)?.analyte);
+  if (earlier.error) return undefined;
+  const value = latest.value - earlier.value;
+  return {
+    value: round(value),
+    percent: earlier.value !== 0 ? Math.round((value / Math.abs(earlier.value)) * 1000) / 10 : undefined,
+    since: previous.date
+  };
+};
+
+// The same readings and lab band DetailChart draws, shrunk to a line
+export const renderSparkline = (metric: HealthMetric, subject?: RangeSubject) => {
+  const latest = metric.dataPoints[metric.dataPoints.length - 1];
+  const points = metric.dataPoints.filter(dp => dp.unit === latest.unit);
+  const lab = selectRange(getEffectiveRanges(latest, metric), 'lab', subject);
+
+  const values = [...points.map(dp => dp.value), lab?.low?.value, lab?.high?.value].filter((v): v is number => v !== undefined);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const times = points.map(dp => new Date(dp.date).getTime());
+  const start = Math.min(...times);
+  const span = Math.max(...times) - start;
+
+  const pad = 3;
+  const x = (time: number) => pad + (span === 0 ? (SPARK_WIDTH - 2 * pad) / 2 : ((time - start) / span) * (SPARK_WIDTH - 2 * pad));
+  const y = (value: number) => SPARK_HEIGHT - pad - (max === min ? (SPARK_HEIGHT - 2 * pad) / 2 : ((value - min) / (max - min)) * (SPARK_HEIGHT - 2 * pad));
+
+  const band = lab && (lab.low || lab.high)
+    ? `<rect x="0" width="${SPARK_WIDTH}" y="${y(lab.high?.value ?? max).toFixed(1)}" height="${(y(lab.low?.value ?? min) - y(lab.high?.value ?? max)).toFixed(1)}" fill="#10b981" fill-opacity="0.12"/>`
+    : '';
+  const path = points.map((dp, i) => `${i === 0 ? 'M' : 'L'}${x(times[i]).toFixed(1)},${y(dp.value).toFixed(1)}`).join(' ');
+  const last = points[points.length - 1];
+  const color = last.isOutOfRange ? '#dc2626' : '#0d9488';
+
+  return `<svg width="${SPARK_WIDTH}" height="${SPARK_HEIGHT}" viewBox="0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}">${band}` +
+    `<path d="${path}" fill="none" stroke="#0d9488" stroke-width="1.5"/>` +
+    `<circle cx="${x(times[times.length - 1]).toFixed(1)}" cy="${y(last.value).toFixed(1)}" r="2.5" fill="${color}"/></svg>`;
+};
+
+// Out-of-range metrics first, then the rest by category
+export const buildVisitSummary = (
+  metrics: HealthMetric[],
+  categories: string[],
+  subject?: RangeSubject
+): VisitSummarySection[] => {
+  const rows = metrics
+    .filter(m => m.dataPoints.length > 0 && (categories.length === 0 || categories.includes(m.category)))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((metric): VisitSummaryRow => ({
+      metric,
+      latest: metric.dataPoints[metric.dataPoints.length - 1],
+      change: changeSinceLastTest(metric),
+      sparkline: renderSparkline(metric, subject)
+    }));
+
+  const flagged = rows.filter(r => isOutOfRangeStatus(r.metric.status));
+  const sections: VisitSummarySection[] = flagged.length > 0 ? [{ title: 'Out of Range', rows: flagged }] : [];
+  const byCategory = new Map<string, VisitSummaryRow[]>();
+  rows.filter(r => !flagged.includes(r)).forEach(r => {
+    byCategory.set(r.metric.category, [...(byCategory.get(r.metric.category) || []), r]);
+  });
+  byCategory.forEach((categoryRows, title) => sections.push({ title, rows: categoryRows }));
+  return sections;
+};
+
+const renderRow = ({ metric, latest, change, sparkline }: VisitSummaryRow) => {
+  const range = metric.target ? `${escapeHtml(latest.referenceRange || '—')}<div class="muted">Target ${escapeHtml(metric.target.text)}</div>` : escapeHtml(latest.referenceRange || '—');
+  const changeText = change
+    ? `${change.value > 0 ? '+' : ''}${change.value}${change.percent !== undefined ? ` (${change.percent > 0 ? '+' : ''}${change.percent}%)` : ''}<div class="muted">since ${change.since}</div>`
+    : '<span class="muted">First test</span>';
+  return `<tr>
+    <td><strong>${escapeHtml(metric.name)}</strong>${metric.derived ? '<div class="muted">Calculated</div>' : ''}${latest.note ? `<div class="note">${escapeHtml(latest.note)}</div>` : ''}</td>
+    <td class="value ${isOutOfRangeStatus(metric.status) ? 'flag' : ''}">${latest.value} ${escapeHtml(latest.unit)}<div class="muted">${metric.status} · ${latest.date}</div></td>
+    <td>${range}</td>
+    <td>${changeText}</td>
+    <td>${sparkline}</td>
+  </tr>`;
+};
+
+// Blank lines separate paragraphs; markdown emphasis is dropped
+const renderText = (text: string) =>
+  text.trim().split(/\n{2,}/).map(p => `<p>${escapeHtml(p.replace(/\*\*|__/g, '')).replace(/\n/g, '<br>')}</p>`).join('');
+
+export const renderVisitSummaryHtml = (sections: VisitSummarySection[], { profile, notes, aiSummary }: VisitSummaryInput) => {
+  const generated = new Date().toLocaleDateString();
+  const about = profile ? [profile.name, describeProfile(profile)].filter(Boolean).join(' · ') : '';
+  const body = sections.map(section => `
+    <h2>${escapeHtml(section.title)}</h2>
+    <table>
+      <thead><tr><th>Metric</th><th>Latest</th><th>Reference</th><th>Change</th><th>History</th></tr></thead>
+      <tbody>${section.rows.map(renderRow).join('')}</tbody>
+    </table>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Visit Summary${profile ? ` – ${escapeHtml(profile.name)}` : ''} – ${generated}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0; }
+  h2 { font-size: 14px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 2px solid #0d9488; }
+  .muted { color: #64748b; font-size: 10px; }
+  .note { color: #475569; font-style: italic; font-size: 10px; }
+  .box { border: 1px solid #e2e8f0; border-radius: 6px; padding: 8px 12px; margin-top: 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #64748b; border-bottom: 1px solid #cbd5e1; padding: 4px 6px; }
+  td { padding: 6px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  .value { white-space: nowrap; font-weight: 600; }
+  .flag { color: #dc2626; }
+  tr { page-break-inside: avoid; }
+  @media print { body { margin: 12mm; } h2 { page-break-after: avoid; } }
+</style>
+</head>
+<body>
+  <h1>Visit Summary</h1>
+  <div class="muted">${about ? `${escapeHtml(about)} · ` : ''}Generated ${generated}</div>
+  ${notes.trim() ? `<div class="box"><strong>Notes for this visit</strong>${renderText(notes)}</div>` : ''}
+  ${aiSummary ? `<div class="box"><strong>AI-written overview</strong> <span class="muted">(not medical advice; verify against the results below)</span>${renderText(aiSummary)}</div>` : ''}
+  ${body || '<p class="muted">No results in the selected categories.</p>'}
+</body>
+</html>`;
+};
+
+export const downloadVisitSummary = (html: string) => {
+  const blob = new Blob([html], { type: 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `visit-summary-${new Date().toISOString().split('T')[0]}.html`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Prints through a hidden frame; the browser's print dialog can save it as PDF
+export const printVisitSummary = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  frame.onload = () => {
+    const view = frame.contentWindow!;
+    view.onafterprint = () => frame.remove();
+    view.print();
+  };
+  frame.srcdoc = html;
+};
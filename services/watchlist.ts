@@ -0,0 +1,71 @@
+import { HealthMetric, MetricValue, PersonalTarget, WatchAlert } from "../types";
+import { createId } from "./storage";
+import { getBiomarker } from "./biomarkerCatalog";
+import { convertUnit } from "./unitConversion";
+import { computeStatus, getTargetRange, parseReferenceRange } from "./referenceRanges";
+
+// Personal targets and the alerts raised when an import moves a watched metric.
+
+// Accepts the same forms as a printed range: "<80", ">= 50", "50-80"
+export const parseTarget = (text: string, unit: string): PersonalTarget | undefined => {
+  const range = parseReferenceRange(text, unit)
+    .find(r => !r.sex && r.minAge === undefined && r.maxAge === undefined && (r.low || r.high));
+  return range && { text: text.trim(), unit, low: range.low, high: range.high };
+};
+
+// undefined when the metric has no target or the reading cannot be compared with it
+const isWithinTarget = (dp: MetricValue, metric: HealthMetric) => {
+  const range = metric.target && getTargetRange(metric.target, dp.unit, metric.canonicalId);
+  return range && computeStatus(dp.value, [range]) === 'Optimal';
+};
+
+const isSameReading = (a: MetricValue, b: MetricValue) =>
+  a.date === b.date && a.value === b.value && a.unit === b.unit;
+
+const byDate = (a: MetricValue, b: MetricValue) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+const alertFor = (metric: HealthMetric, dp: MetricValue, kind: WatchAlert['kind'], message: string): WatchAlert => ({
+  id: createId(),
+  metricId: metric.id,
+  metricName: metric.name,
+  kind,
+  message,
+  date: dp.date,
+  createdAt: Date.now()
+});
+
+// Compares watched metrics before and after an import. Only a new latest reading raises alerts;
+// back-filled history does not.
+export const findWatchAlerts = (before: HealthMetric[], after: HealthMetric[]): WatchAlert[] =>
+  after.filter(m => m.watch).flatMap(metric => {
+    const previous = before.find(m => m.id === metric.id);
+    const points = [...metric.dataPoints].sort(byDate);
+    const latest = points[points.length - 1];
+    const prior = points[points.length - 2];
+    if (!previous || !latest || previous.dataPoints.some(dp => isSameReading(dp, latest))) return [];
+
+    const alerts: WatchAlert[] = [];
+    const reading = `${latest.value} ${latest.unit}`;
+
+    const within = isWithinTarget(latest, metric);
+    const wasWithin = prior ? isWithinTarget(prior, metric) : true;
+    if (within === false && wasWithin !== false) {
+      alerts.push(alertFor(metric, latest, 'left-target', `${metric.name} is outside your target (${metric.target!.text} ${metric.target!.unit}) at ${reading}.`));
+    } else if (within === true && wasWithin === false) {
+      alerts.push(alertFor(metric, latest, 'reached-target', `${metric.name} is back within your target (${metric.target!.text} ${metric.target!.unit}) at ${reading}.`));
+    }
+
+    const threshold = metric.watch!.changePercent;
+    if (threshold && prior) {
+      const earlier = convertUnit(prior.value, prior.unit, latest.unit, getBiomarker(metric.canonicalId)?.analyte);
+      if (!earlier.error && earlier.value !== 0) {
+        const change = ((latest.value - earlier.value) / Math.abs(earlier.value)) * 100;
+        if (Math.abs(change) > threshold) {
+          const rounded = Math.round(change * 10) / 10;
+          alerts.push(alertFor(metric, latest, 'change',
+            `${metric.name} changed ${rounded > 0 ? '+' : ''}${rounded}% since ${prior.date} (${prior.value} ${prior.unit} → ${reading}).`));
+        }
+      }
+    }
+    return alerts;
+  });
@@ -0,0 +1,38 @@
+import { WearableFormat, WearableImportResult } from "./wearableParsers";
+import type { WearableWorkerMessage } from "./wearableImport.worker";
+
+export { detectWearableFormat } from "./wearableParsers";
+export type { WearableFormat } from "./wearableParsers";
+
+export const WEARABLE_FORMAT_LABELS: Record<WearableFormat, string> = {
+  'apple-health': 'Apple Health',
+  'google-fit-json': 'Google Fit',
+  'google-fit-csv': 'Google Fit',
+};
+
+// Parses a wearable export in a dedicated worker and resolves with the daily aggregates
+export const importWearableFile = (
+  file: File,
+  format: WearableFormat,
+  onProgress?: (fraction: number) => void
+): Promise<WearableImportResult> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./wearableImport.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<WearableWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'The import worker failed.'));
+    };
+
+    worker.postMessage({ file, format });
+  });
@@ -0,0 +1,32 @@
+import { WearableFormat, WearableImportResult, parseWearableFile } from "./wearableParsers";
+
+// Runs the wearable parsers off the main thread so multi-hundred-MB exports do not freeze the UI.
+
+export interface WearableWorkerRequest {
+  file: File;
+  format: WearableFormat;
+}
+
+export type WearableWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'done'; result: WearableImportResult }
+  | { type: 'error'; message: string };
+
+const post = (message: WearableWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<WearableWorkerRequest>) => {
+  const { file, format } = event.data;
+  let lastReported = 0;
+
+  try {
+    const result = await parseWearableFile(file, format, fraction => {
+      // Throttle to whole percents
+      if (fraction - lastReported < 0.01 && fraction < 1) return;
+      lastReported = fraction;
+      post({ type: 'progress', fraction });
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,227 @@
+import { MetricCategory, NormalizedMetric } from "../types";
+import { convertUnit } from "./unitConversion";
+import { ProgressCallback, streamJsonArray, streamLines, streamText } from "./fileStream";
+
+// Local parsers for wearable exports (Apple Health export.xml, Google Fit Takeout JSON/CSV).
+// These files are far too large for the AI, so records are streamed and rolled up into one value per day.
+
+export type WearableFormat = 'apple-health' | 'google-fit-json' | 'google-fit-csv';
+
+type WearableKind = 'steps' | 'heartRate' | 'restingHeartRate' | 'hrv' | 'vo2max' | 'weight' | 'bodyFat';
+
+interface KindDefinition {
+  canonicalId: string;
+  name: string;
+  unit: string;
+  category: MetricCategory;
+  // Counts add up over the day; measurements are averaged
+  aggregate: 'sum' | 'mean';
+}
+
+const KINDS: Record<WearableKind, KindDefinition> = {
+  steps: { canonicalId: '41950-7', name: 'Steps', unit: 'steps', category: MetricCategory.Activity, aggregate: 'sum' },
+  heartRate: { canonicalId: '8867-4', name: 'Heart Rate', unit: 'bpm', category: MetricCategory.Activity, aggregate: 'mean' },
+  restingHeartRate: { canonicalId: '40443-4', name: 'Resting Heart Rate', unit: 'bpm', category: MetricCategory.Activity, aggregate: 'mean' },
+  hrv: { canonicalId: '80404-7', name: 'Heart Rate Variability', unit: 'ms', category: MetricCategory.Activity, aggregate: 'mean' },
+  vo2max: { canonicalId: 'local:vo2max', name: 'VO2 Max', unit: 'mL/kg/min', category: MetricCategory.Activity, aggregate: 'mean' },
+  weight: { canonicalId: '29463-7', name: 'Body Weight', unit: 'kg', category: MetricCategory.Body, aggregate: 'mean' },
+  bodyFat: { canonicalId: '41982-0', name: 'Body Fat', unit: '%', category: MetricCategory.Body, aggregate: 'mean' },
+};
+
+export interface WearableImportResult {
+  metrics: NormalizedMetric[];
+  records: number; // raw records that were rolled up
+}
+
+// --- Daily aggregation ---
+
+export const createDailyAggregator = () => {
+  const buckets = new Map<string, { kind: WearableKind; date: string; source: string; total: number; count: number }>();
+  let records = 0;
+
+  const add = (kind: WearableKind, date: string, value: number, source = '') => {
+    if (!Number.isFinite(value) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return;
+    const key = `${kind}|${date}|${source}`;
+    const bucket = buckets.get(key) || { kind, date, source, total: 0, count: 0 };
+    bucket.total += value;
+    bucket.count += 1;
+    buckets.set(key, bucket);
+    records++;
+  };
+
+  const finish = (): WearableImportResult => {
+    const days = new Map<string, { kind: WearableKind; date: string; value: number; total: number; count: number }>();
+
+    buckets.forEach(bucket => {
+      const key = `${bucket.kind}|${bucket.date}`;
+      const day = days.get(key) || { kind: bucket.kind, date: bucket.date, value: 0, total: 0, count: 0 };
+      // Phone and watch both count steps; take the most complete source instead of double counting
+      day.value = Math.max(day.value, bucket.total);
+      day.total += bucket.total;
+      day.count += bucket.count;
+      days.set(key, day);
+    });
+
+    const metrics = [...days.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(day => {
+        const definition = KINDS[day.kind];
+        const value = definition.aggregate === 'sum'
+          ? Math.round(day.value)
+          : Math.round((day.total / day.count) * 10) / 10;
+        return {
+          name: definition.name,
+          canonicalId: definition.canonicalId,
+          value,
+          unit: definition.unit,
+          category: definition.category,
+          date: day.date,
+          referenceRange: '',
+          status: ''
+        };
+      });
+
+    return { metrics, records };
+  };
+
+  return { add, finish };
+};
+
+const toLocalDate = (time: Date) =>
+  `${time.getFullYear()}-${String(time.getMonth() + 1).padStart(2, '0')}-${String(time.getDate()).padStart(2, '0')}`;
+
+export const detectWearableFormat = async (file: File): Promise<WearableFormat | null> => {
+  const head = await file.slice(0, 4096).text();
+  const name = file.name.toLowerCase();
+
+  if (/<(!DOCTYPE\s+)?HealthData\b/.test(head)) return 'apple-health';
+  if (name.endsWith('.json') && /"Data Points"|"dataTypeName"/.test(head)) return 'google-fit-json';
+  if (name.endsWith('.csv') && /Step count|Average weight|Average heart rate/i.test(head.split('\n')[0])) return 'google-fit-csv';
+  return null;
+};
+
+// --- Apple Health ---
+
+const APPLE_TYPES: Record<string, WearableKind> = {
+  HKQuantityTypeIdentifierStepCount: 'steps',
+  HKQuantityTypeIdentifierRestingHeartRate: 'restingHeartRate',
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv',
+  HKQuantityTypeIdentifierVO2Max: 'vo2max',
+  HKQuantityTypeIdentifierBodyMass: 'weight',
+  HKQuantityTypeIdentifierBodyFatPercentage: 'bodyFat',
+};
+
+const readAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) attributes[match[1]] = match[2];
+  return attributes;
+};
+
+const addAppleRecord = (aggregator: ReturnType<typeof createDailyAggregator>, tag: string) => {
+  const type = /\btype="(\w+)"/.exec(tag)?.[1];
+  const kind = type && APPLE_TYPES[type];
+  if (!kind) return;
+
+  const { value, unit, startDate, sourceName } = readAttributes(tag);
+  let amount = parseFloat(value);
+
+  if (kind === 'weight' && unit && unit !== 'kg') {
+    const conversion = convertUnit(amount, unit, 'kg');
+    if (conversion.error) return;
+    amount = conversion.value;
+  }
+  // HealthKit stores body fat as a fraction
+  if (kind === 'bodyFat' && amount <= 1) amount *= 100;
+
+  // startDate is in the device's local time ("2024-03-01 07:12:00 +0100"), so the prefix is the local day
+  aggregator.add(kind, (startDate || '').slice(0, 10), amount, sourceName);
+};
+
+export const parseAppleHealthExport = async (file: File, onProgress?: ProgressCallback): Promise<WearableImportResult> => {
+  const aggregator = createDailyAggregator();
+  let buffer = '';
+
+  const scan = (text: string) => {
+    for (const match of text.matchAll(/<Record\s[^>]*>/g)) addAppleRecord(aggregator, match[0]);
+  };
+
+  await streamText(file, text => {
+    buffer += text;
+    // Hold back the last, possibly incomplete tag for the next chunk
+    const cut = buffer.lastIndexOf('<');
+    if (cut <= 0) return;
+    scan(buffer.slice(0, cut));
+    buffer = buffer.slice(cut);
+  }, onProgress);
+  scan(buffer);
+
+  return aggregator.finish();
+};
+
+// --- Google Fit (Takeout) ---
+
+// Takeout has plain heart rate samples but no resting heart rate, HRV or VO2 max, so those
+// only come from Apple Health. Heart rate is kept as its daily average, not passed off as resting.
+const GOOGLE_TYPES: Record<string, WearableKind> = {
+  'com.google.step_count.delta': 'steps',
+  'com.google.heart_rate.bpm': 'heartRate',
+  'com.google.weight': 'weight',
+  'com.google.body.fat.percentage': 'bodyFat',
+};
+
+// "All Data" exports hold one data source per file and can run to hundreds of MB,
+// so data points are parsed one at a time as the file streams in
+export const parseGoogleFitJson = async (file: File, onProgress?: ProgressCallback): Promise<WearableImportResult> => {
+  const aggregator = createDailyAggregator();
+  let source: string | undefined;
+
+  await streamJsonArray(file, ['Data Points', 'dataPoints', 'point'], (point, head) => {
+    const kind = GOOGLE_TYPES[point.dataTypeName];
+    const nanos = Number(point.startTimeNanos);
+    const fitValue = (point.fitValue || point.value || [])[0];
+    const value = fitValue?.value ?? fitValue;
+    const amount = value?.intVal ?? value?.fpVal;
+    if (!kind || !Number.isFinite(nanos) || amount === undefined) return;
+
+    source ??= /"Data Source"\s*:\s*"([^"]*)"/.exec(head)?.[1] || file.name;
+    aggregator.add(kind, toLocalDate(new Date(nanos / 1e6)), Number(amount), point.originDataSourceId || source);
+  }, onProgress);
+
+  return aggregator.finish();
+};
+
+const GOOGLE_CSV_COLUMNS: Record<string, WearableKind> = {
+  'step count': 'steps',
+  'average heart rate (bpm)': 'heartRate',
+  'average weight (kg)': 'weight',
+};
+
+// Covers both the summary "Daily activity metrics.csv" and the per-day "2024-03-01.csv" interval files
+export const parseGoogleFitCsv = async (file: File, onProgress?: ProgressCallback): Promise<WearableImportResult> => {
+  const aggregator = createDailyAggregator();
+  const fileDate = /(\d{4}-\d{2}-\d{2})/.exec(file.name)?.[1] || '';
+  let header: string[] | null = null;
+
+  await streamLines(file, line => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (!header) {
+      header = cells.map(cell => cell.toLowerCase());
+      return;
+    }
+    const date = header.includes('date') ? cells[header.indexOf('date')] : fileDate;
+    header.forEach((column, i) => {
+      const kind = GOOGLE_CSV_COLUMNS[column];
+      if (kind && cells[i]) aggregator.add(kind, date, parseFloat(cells[i]), file.name);
+    });
+  }, onProgress);
+
+  return aggregator.finish();
+};
+
+export const parseWearableFile = (file: File, format: WearableFormat, onProgress?: ProgressCallback) => {
+  switch (format) {
+    case 'apple-health': return parseAppleHealthExport(file, onProgress);
+    case 'google-fit-json': return parseGoogleFitJson(file, onProgress);
+    case 'google-fit-csv': return parseGoogleFitCsv(file, onProgress);
+  }
+};
@@ -9,25 +9,80 @@ export enum MetricCategory {
   Other = 'Other'
 }
 
+export type MetricStatus = 'Optimal' | 'Borderline' | 'High' | 'Low' | 'Normal';
+
+export interface RangeBound {
+  value: number;
+  inclusive: boolean;
+}
+
+export interface ReferenceRange {
+  kind: 'lab' | 'optimal';
+  low?: RangeBound;
+  high?: RangeBound;
+  sex?: 'male' | 'female';
+  minAge?: number;
+  maxAge?: number;
+}
+
 export interface MetricValue {
   date: string; // ISO Date string
   value: number;
   unit: string;
-  referenceRange?: string;
+  referenceRange?: string; // as printed on the report
+  ranges?: ReferenceRange[]; // parsed from referenceRange, in this point's unit
+  reportedStatus?: MetricStatus; // what the source said, used when no range applies
   isOutOfRange?: boolean;
-  sourceDoc?: string;
+  sourceDoc?: string; // file name, kept for display
+  documentId?: string; // SourceDocument the value was imported from
+  // Set when the value was converted from the unit it was reported in
+  originalValue?: number;
+  originalUnit?: string;
+  // Where in the source document the value was read, for checking the extraction
+  page?: number; // 1-based
+  snippet?: string; // the source text, verbatim
+  note?: string;
 }
 
 export interface HealthMetric {
   id: string;
+  profileId?: string; // stamped by the storage layer
+  canonicalId?: string; // biomarker catalog ID, stable across renames
   name: string;
   category: MetricCategory;
   dataPoints: MetricValue[];
   latestValue: number;
   latestUnit: string;
   latestDate: string;
-  status: 'Optimal' | 'Borderline' | 'High' | 'Low' | 'Normal';
+  status: MetricStatus;
   description?: string;
+  // Set on metrics calculated from others (ratios, indices); these are never stored
+  derived?: { formula: string; inputIds: string[] };
+  target?: PersonalTarget;
+  watch?: WatchSettings;
+}
+
+// The user's own goal for a metric. It replaces the lab's optimal range when judging status.
+export interface PersonalTarget {
+  text: string; // as entered, e.g. "<80" or "50-80"
+  unit: string; // unit the bounds are in
+  low?: RangeBound;
+  high?: RangeBound;
+}
+
+// Watched metrics raise an alert when an import crosses the target or moves by more than changePercent
+export interface WatchSettings {
+  changePercent?: number;
+}
+
+export interface WatchAlert {
+  id: string;
+  metricId: string;
+  metricName: string;
+  kind: 'left-target' | 'reached-target' | 'change';
+  message: string;
+  date: string; // of the reading that raised it
+  createdAt: number;
 }
 
 export interface ParsedDataResponse {
@@ -39,12 +94,104 @@ export interface ParsedDataResponse {
     date: string;
     referenceRange: string;
     status: string;
+    page?: number;
+    snippet?: string;
   }[];
 }
 
+export type ParsedMetric = ParsedDataResponse['metrics'][number];
+
+export interface NormalizedMetric extends ParsedMetric {
+  canonicalId?: string;
+  ranges?: ReferenceRange[];
+  originalValue?: number;
+  originalUnit?: string;
+  // Set when a match was found but the value could not be converted safely
+  conversionError?: string;
+}
+
+// A genotype call from a raw DNA file, interpreted against the bundled SNP panel.
+// Kept apart from HealthMetric because the result is categorical, not a numeric series.
+export interface GeneticResult {
+  id: string; // panel entry, so a newer upload replaces the previous call
+  profileId?: string;
+  gene: string;
+  name: string;
+  rsids: string[];
+  genotype: string;
+  interpretation: string;
+  flagged: boolean; // carries a variant worth discussing
+  description?: string;
+  date: string;
+  sourceDoc?: string;
+  documentId?: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   timestamp: number;
-}
\ No newline at end of file
+  toolCalls?: { name: string; args: Record<string, unknown> }[]; // data lookups behind a model answer
+  stopped?: boolean; // the answer was cut short by the user
+  error?: string; // the answer failed; such messages are not sent back to the model
+}
+
+export interface SourceDocument {
+  id: string;
+  profileId?: string;
+  name: string;
+  mimeType?: string;
+  importedAt: string; // ISO timestamp
+  hash?: string; // SHA-256 of the contents, hex
+  size?: number; // bytes
+}
+
+// The data an advisor answer was based on, so old conversations can be read in context
+export interface DataSnapshot {
+  takenAt: number;
+  metrics: { metricId: string; name: string; value: number; unit: string; date: string; status: MetricStatus }[];
+  geneticResults: { id: string; name: string; genotype: string }[];
+}
+
+export interface ChatThread {
+  id: string;
+  profileId?: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  snapshot?: DataSnapshot; // taken when the latest answer was generated
+}
+
+export type ChangeKind = 'import' | 'create' | 'edit' | 'delete' | 'revert' | 'undo' | 'redo';
+
+// Snapshot of one metric around a change; a missing side means the metric did not exist
+export interface MetricChange {
+  metricId: string;
+  before?: HealthMetric;
+  after?: HealthMetric;
+}
+
+// Append-only audit entry. Undo and redo are recorded as entries of their own.
+export interface ChangeLogEntry {
+  id: string;
+  profileId?: string;
+  timestamp: number;
+  kind: ChangeKind;
+  description: string;
+  documentId?: string; // source document of an import batch
+  changes: MetricChange[];
+}
+
+export type UnitSystem = 'conventional' | 'si';
+
+// A person whose data is tracked. Everything else in storage is scoped to one profile.
+export interface Profile {
+  id: string;
+  name: string;
+  sex?: 'male' | 'female';
+  birthDate?: string; // ISO date
+  units: UnitSystem; // preferred units for newly created metrics
+  createdAt: number;
+}